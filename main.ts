@@ -1,9 +1,11 @@
 import { 
     Plugin, ItemView, WorkspaceLeaf, Notice, PluginSettingTab, App, 
-    Setting, setIcon, Modal, ButtonComponent, moment, normalizePath, TFile
+    Setting, setIcon, Modal, ButtonComponent, moment, normalizePath, TFile, Events,
+    FuzzySuggestModal, EventRef, getAllTags, TAbstractFile, TFolder, Menu, parseYaml, stringifyYaml, requestUrl
 } from 'obsidian';
 
 const VIEW_TYPE_ZEN = "zen-zone-view";
+const VIEW_TYPE_STATS = "zen-zone-stats-view";
 
 // ------------------------------------------------------------
 // 0. Constants & Constraints
@@ -11,7 +13,22 @@ const VIEW_TYPE_ZEN = "zen-zone-view";
 const TIME_CONSTRAINTS = {
     work: { min: 15, max: 60, default: 25 },
     shortBreak: { min: 3, max: 15, default: 5 },
-    longBreak: { min: 15, max: 45, default: 30 }
+    longBreak: { min: 15, max: 45, default: 30 },
+    customPhase: { min: 1, max: 180, default: 25 },
+    cycles: { min: 1, max: 12, default: 4 }
+};
+
+const VOLUME_STEP = 0.1;
+
+const FADE_CONSTRAINTS = { min: 0, max: 10, default: 3 };
+
+// 休憩ガイド: プロンプトの切り替え間隔と、スキップに必要な長押し時間
+const BREAK_PROMPT_INTERVAL_MS = 30000;
+const SKIP_BREAK_HOLD_MS = 3000;
+
+const GENERATOR_CONSTRAINTS = {
+    carrierHz: { min: 60, max: 1000, default: 200 },
+    beatHz: { min: 1, max: 40, default: 10 }
 };
 
 // ------------------------------------------------------------
@@ -22,15 +39,45 @@ interface Checkpoint {
     time: string;
 }
 
+type NoiseColor = 'none' | 'white' | 'pink' | 'brown';
+type ToneMode = 'none' | 'binaural' | 'isochronic';
+
+interface NoiseGeneratorConfig {
+    noise: NoiseColor;
+    tone: ToneMode;
+    carrierHz: number;
+    beatHz: number;
+}
+
 interface PlaylistItem {
     title: string;
     url: string;
     checkpoints?: Checkpoint[];
+    generator?: NoiseGeneratorConfig; // 指定時は url の代わりに Web Audio で生成
 }
 
 interface MusicReference {
     trackIndex: number;
     checkpointIndex: number; // -1 の場合は最初から
+    soundscapeId?: string; // 指定時は trackIndex の代わりにサウンドスケープを再生
+}
+
+interface SoundscapeLayer {
+    trackIndex: number;
+    volume: number; // 0-1, master volume に掛け合わせる
+    muted: boolean;
+}
+
+interface Soundscape {
+    id: string;
+    name: string;
+    layers: SoundscapeLayer[];
+}
+
+interface PhaseDefinition {
+    type: TimerState; // Focus | ShortBreak | LongBreak
+    duration: number; // minutes
+    music: MusicReference;
 }
 
 interface TaskItem {
@@ -39,34 +86,454 @@ interface TaskItem {
     completed: boolean;
     header?: string;
     filePath?: string;
+    blockId?: string; // ノート側の行に付けたブロックID (^ なし)
+    conflict?: string; // ノート側との不整合 (行の削除など)。ユーザーが解決するまで表示する
+    estimate?: number; // 見積もりポモドーロ数
+    actual?: number;   // 完了した Focus フェーズ数
+}
+
+interface TaskSource {
+    type: 'folder' | 'tag' | 'query' | 'active-note'; // 'query' は「本文に含む」(部分一致) ルール。保存済みの設定のため名前は据え置き
+    value: string;
+}
+
+export interface SessionRecord {
+    id: string;
+    state: TimerState;
+    outcome: 'completed' | 'skipped' | 'aborted';
+    startedAt: number; // epoch ms
+    endedAt: number;
+    plannedSeconds: number;
+    actualSeconds: number; // 一時停止していた時間を除く
+    pausedSeconds?: number;
+    cycleCount: number;
+    taskId?: string;
+    taskContent?: string;
+    trackTitle?: string;
+    distractions?: number; // フォーカスロックに引っかかった回数
+    interruptions?: Interruption[];
+}
+
+export interface Interruption {
+    kind: 'internal' | 'external';
+    at: number; // epoch ms
+    note?: string;
+    auto?: boolean; // ウィンドウから離れていたのを自動検出
+}
+
+type AlertTransition = 'focus-end' | 'break-end' | 'session-end';
+type ChimeId = 'none' | 'bell' | 'ding-dong' | 'gong' | 'vault';
+
+interface PhaseAlert {
+    chime: ChimeId;
+    chimePath: string; // chime が 'vault' のときの音声ファイル
+    notify: boolean; // OS の通知
+}
+
+type BreathingPattern = 'box' | '4-7-8';
+
+interface BreathingStep {
+    label: string;
+    seconds: number;
+    expand: boolean; // 円を広げた状態で終えるか
+}
+
+const BREATHING_PATTERNS: Record<BreathingPattern, { name: string; steps: BreathingStep[] }> = {
+    'box': {
+        name: "Box breathing (4-4-4-4)",
+        steps: [
+            { label: "Inhale", seconds: 4, expand: true },
+            { label: "Hold", seconds: 4, expand: true },
+            { label: "Exhale", seconds: 4, expand: false },
+            { label: "Hold", seconds: 4, expand: false }
+        ]
+    },
+    '4-7-8': {
+        name: "4-7-8 breathing",
+        steps: [
+            { label: "Inhale", seconds: 4, expand: true },
+            { label: "Hold", seconds: 7, expand: true },
+            { label: "Exhale", seconds: 8, expand: false }
+        ]
+    }
+};
+
+function countInterruptions(list: Interruption[] | undefined, kind: Interruption['kind']): number {
+    return (list ?? []).filter(i => i.kind === kind).length;
+}
+
+// Settings bundled into a named preset
+const PRESET_KEYS = [
+    'workDuration', 'shortBreakDuration', 'longBreakDuration',
+    'cycleMode', 'cyclesBeforeLongBreak', 'customPhases',
+    'workMusic', 'breakMusic',
+    'autoCollapseSidebars', 'hideHeader'
+] as const;
+
+type PresetFields = Pick<ZenZoneSettings, typeof PRESET_KEYS[number]>;
+
+interface TimerPreset extends PresetFields {
+    id: string;
+    name: string;
 }
 
-interface ZenZoneSettings {
+export interface ZenZoneSettings {
     playlistData: PlaylistItem[];
+    playlistFilePath: string;
+    syncPlaylistFile: boolean;
     // Time Settings (minutes)
     workDuration: number;
     shortBreakDuration: number;
     longBreakDuration: number;
+    // Cycle Structure
+    cycleMode: 'standard' | 'custom';
+    cyclesBeforeLongBreak: number;
+    customPhases: PhaseDefinition[];
     // Preferences
     autoCollapseSidebars: boolean;
     hideHeader: boolean;
+    restoreLayout: boolean;
+    useFocusLayout: boolean;
+    // Focus Lock
+    focusLock: 'off' | 'warn' | 'block';
+    focusLockTaskNote: boolean;
+    focusLockSources: TaskSource[];
+    // Interruptions
+    detectInterruptions: boolean;
+    interruptionAwaySeconds: number;
+    // Break Guide
+    breakGuide: boolean;
+    breathingPattern: BreathingPattern;
+    breakPrompts: string[];
+    // Phase-end Alerts
+    alerts: Record<AlertTransition, PhaseAlert>;
+    chimeVolume: number;
+    reminderMinutes: number; // 0 で繰り返さない
     autoLogToDaily: boolean;
+    sessionLogEnabled: boolean;
+    sessionLogHeader: string;
+    sessionLogTemplate: string;
+    sessionSummaryTemplate: string;
     showStatusBarTimer: boolean;
+    extendMinutes: number;
+    fadeSeconds: number;
     // Task Data
     tasks: TaskItem[];
-    // Music Preferences (4 cycles)
+    soundscapes: Soundscape[];
+    // Music Preferences (one per cycle, standard mode)
     workMusic: MusicReference[];
     breakMusic: MusicReference[];
     // Daily Note Settings
     dailyNoteFormat: string;
     dailyNoteFolder: string;
     dailyNoteTargetHeader: string;
+    // Task Sources
+    taskSources: TaskSource[];
+    // Presets
+    presets: TimerPreset[];
+    activePresetId: string | null;
+    // Session History
+    sessionHistory: SessionRecord[];
+    // Running Timer (restored on load)
+    timerSession: TimerSnapshot | null;
+    // Workspace Layouts
+    focusLayout: Record<string, unknown> | null;
+    layoutSnapshot: Record<string, unknown> | null; // セッション開始前のレイアウト
+}
+
+function getPhaseLabel(state: TimerState): string {
+    if (state === TimerState.Focus) return "🔥 FOCUS";
+    if (state === TimerState.ShortBreak) return "☕ Break (Short)";
+    if (state === TimerState.LongBreak) return "🌴 Break (Long)";
+    return "Ready";
+}
+
+function formatTime(seconds: number): string {
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+/** Parses "ss", "m:ss" or "h:mm:ss" into seconds. Returns null for malformed input. */
+export function parseTimestamp(value: string): number | null {
+    const parts = (value || "").trim().split(':');
+    if (parts.length === 0 || parts.length > 3) return null;
+    if (!parts.every(p => /^\d+$/.test(p))) return null;
+    const nums = parts.map(Number);
+    // 先頭以外の桁は 60 未満でなければならない
+    if (nums.slice(1).some(n => n >= 60)) return null;
+    return nums.reduce((total, n) => total * 60 + n, 0);
+}
+
+function formatTimestamp(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = (total % 60).toString().padStart(2, '0');
+    return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// --- Task Lines ---
+const TASK_LINE_REGEX = /^(\s*[-*+]\s+\[)(.)(\]\s+)(.*?)(?:\s+\^([A-Za-z0-9-]+))?\s*$/;
+
+interface ParsedTaskLine {
+    checked: boolean;
+    text: string;
+    blockId: string | null;
+}
+
+export function parseTaskLine(line: string): ParsedTaskLine | null {
+    const match = line.match(TASK_LINE_REGEX);
+    if (!match) return null;
+    return { checked: match[2] !== ' ', text: match[4], blockId: match[5] ?? null };
+}
+
+function findTaskLine(lines: string[], blockId: string): number {
+    return lines.findIndex(line => parseTaskLine(line)?.blockId === blockId);
+}
+
+// "🍅 4" は見積もりのみ、"🍅 3/4" は 実績/見積もり
+const POMODORO_TOKEN_REGEX = /\s*🍅\s*(\d+)(?:\s*\/\s*(\d+))?/u;
+const MAX_POMODORO_ESTIMATE = 8;
+
+export function extractPomodoros(text: string): { text: string, estimate?: number, actual?: number } {
+    const match = text.match(POMODORO_TOKEN_REGEX);
+    if (!match) return { text };
+    const stripped = text.replace(POMODORO_TOKEN_REGEX, "").trim();
+    if (match[2] !== undefined) return { text: stripped, actual: parseInt(match[1]), estimate: parseInt(match[2]) };
+    return { text: stripped, estimate: parseInt(match[1]) };
+}
+
+function formatPomodoros(task: TaskItem): string {
+    const actual = task.actual ?? 0;
+    return task.estimate ? `🍅 ${actual}/${task.estimate}` : `🍅 ${actual}`;
+}
+
+/** Replaces any pomodoro token on a task line, keeping a trailing block ID last. */
+export function withPomodoroToken(line: string, token: string): string {
+    return line.replace(POMODORO_TOKEN_REGEX, "").replace(/(\s+\^[A-Za-z0-9-]+)?\s*$/, ` ${token}$1`);
+}
+
+function createBlockId(): string {
+    return `zen-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function getTaskSourceLabel(type: TaskSource['type']): string {
+    switch (type) {
+        case 'folder': return "Folder";
+        case 'tag': return "Tag";
+        case 'query': return "Text contains";
+        case 'active-note': return "Active Note";
+    }
+}
+
+/** Whether `source` has something to match on (an empty folder, tag or text rule matches nothing). */
+function isTaskSourceSet(source: TaskSource): boolean {
+    return source.type === 'active-note' || !!source.value.trim();
+}
+
+/** Whether an open task line in `file` is picked up by `source`. */
+function matchesTaskSource(source: TaskSource, file: TFile, fileTags: string[], text: string, activePath: string | null): boolean {
+    const value = source.value.trim();
+    switch (source.type) {
+        case 'folder': {
+            if (!value) return false;
+            const folder = normalizePath(value);
+            return folder === "/" || file.path.startsWith(`${folder}/`);
+        }
+        case 'tag': {
+            if (!value) return false;
+            const tag = (value.startsWith('#') ? value : `#${value}`).toLowerCase();
+            const hasTag = (t: string) => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`);
+            return fileTags.some(hasTag) || (text.match(/#[^\s#]+/g) ?? []).some(hasTag);
+        }
+        case 'query':
+            return !!value && text.toLowerCase().includes(value.toLowerCase());
+        case 'active-note':
+            return file.path === activePath;
+    }
+}
+
+// --- Daily Note Templates ---
+interface DailyNoteConfig {
+    folder: string;
+    format: string;
+    template: string;
+    source: 'periodic-notes' | 'daily-notes' | 'zen-zone';
+}
+
+/** Folder/format/template options as stored by Periodic Notes (daily) and the core Daily Notes plugin. */
+interface DailyNoteOptions {
+    enabled?: boolean;
+    folder?: string;
+    format?: string;
+    template?: string;
+}
+
+/** The undocumented plugin registries that daily-note creation reads from `app`. */
+interface PluginRegistries {
+    plugins?: {
+        getPlugin?(id: string): {
+            settings?: { daily?: DailyNoteOptions };
+            templater?: { overwrite_file_commands?(file: TFile): Promise<void> };
+        } | null;
+    };
+    internalPlugins?: {
+        plugins?: Record<string, { enabled?: boolean; instance?: { options?: DailyNoteOptions } } | undefined>;
+    };
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * Expands the template variables understood by core Daily Notes and Periodic Notes for the note of `date`:
+ * {{title}}, {{date}}, {{time}}, {{date:FORMAT}}, offsets like {{date+1d:FORMAT}} / {{time-30m}},
+ * {{yesterday}}, {{tomorrow}} and weekday names like {{monday:YYYY-MM-DD}}.
+ */
+export function renderDailyTemplate(content: string, date: moment.Moment, noteFormat: string): string {
+    const now = moment();
+    const base = (kind: string) => kind === "time"
+        // 日付はノートの日、時刻は作成した時刻
+        ? date.clone().set({ hour: now.hour(), minute: now.minute(), second: now.second() })
+        : date.clone();
+
+    return content
+        .replace(/{{\s*title\s*}}/gi, date.format(noteFormat))
+        .replace(/{{\s*yesterday\s*}}/gi, date.clone().subtract(1, 'day').format(noteFormat))
+        .replace(/{{\s*tomorrow\s*}}/gi, date.clone().add(1, 'day').format(noteFormat))
+        .replace(/{{\s*(date|time)\s*(?:([+-])\s*(\d+)\s*([yMQwdhms]))?\s*(?::([^}]+))?\s*}}/gi, (match, kind: string, sign, amount, unit, format) => {
+            const value = base(kind.toLowerCase());
+            if (sign) value.add((sign === '-' ? -1 : 1) * parseInt(amount), unit as moment.unitOfTime.DurationConstructor);
+            const fallbackFormat = kind.toLowerCase() === "time" ? "HH:mm" : "YYYY-MM-DD";
+            return value.format(format ? format.trim() : fallbackFormat);
+        })
+        .replace(new RegExp(`{{\\s*(${WEEKDAYS.join("|")})\\s*:([^}]+)}}`, "gi"), (match, day: string, format: string) => {
+            return date.clone().day(WEEKDAYS.indexOf(day.toLowerCase())).format(format.trim());
+        });
+}
+
+// --- Daily Note Sections ---
+const SUMMARY_MARKER = "%%zen-summary%%";
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function getSectionRegex(header: string): RegExp {
+    return new RegExp(`(#{1,6}\\s+${escapeRegExp(header)}[\\s\\S]*?)(?=\\n#{1,6}\\s|$)`, 'i');
+}
+
+/** Appends `line` to the end of the `header` section, adding the section at the bottom if it is missing. */
+function appendToSection(content: string, header: string, line: string): string {
+    const regex = getSectionRegex(header);
+    if (content.match(regex)) {
+        return content.replace(regex, (match) => `${match.trimEnd()}\n${line}\n`);
+    }
+    return content.trimEnd() + `\n\n## ${header}\n${line}`;
+}
+
+/** Writes (or replaces) the marked summary line right below the `header` heading. */
+function setSectionSummary(content: string, header: string, summary: string): string {
+    const summaryLine = `${summary} ${SUMMARY_MARKER}`;
+    return content.replace(getSectionRegex(header), (section) => {
+        const lines = section.split("\n");
+        const index = lines.findIndex(line => line.includes(SUMMARY_MARKER));
+        if (index >= 0) lines[index] = summaryLine;
+        else lines.splice(1, 0, summaryLine);
+        return lines.join("\n");
+    });
+}
+
+function renderTemplate(template: string, vars: Record<string, string>): string {
+    return template.replace(/{{\s*(\w+)\s*}}/g, (match, key) => vars[key] ?? match);
+}
+
+function renderSessionLogLine(template: string, record: SessionRecord): string {
+    const isFocus = record.state === TimerState.Focus;
+    const line = renderTemplate(template, {
+        start: moment(record.startedAt).format("HH:mm"),
+        end: moment(record.endedAt).format("HH:mm"),
+        icon: isFocus ? "🍅" : "☕",
+        phase: isFocus ? "Focus" : record.state === TimerState.LongBreak ? "Long Break" : "Break",
+        minutes: Math.round(record.actualSeconds / 60).toString(),
+        task: isFocus ? record.taskContent ?? "" : "",
+        track: record.trackTitle ?? "",
+        outcome: record.outcome,
+        distractions: (record.distractions ?? 0).toString(),
+        interruptions: (record.interruptions?.length ?? 0).toString()
+    });
+    // 空の変数で残った区切り (" — " や "()") を片付ける
+    return line.replace(/\s*\(\s*\)/g, "").replace(/\s+—(?=\s*(\(|$))/g, "").trimEnd();
+}
+
+function renderSessionSummary(template: string, history: SessionRecord[], day: moment.Moment): string {
+    const records = history.filter(r => moment(r.startedAt).isSame(day, 'day'));
+    const focus = records.filter(r => r.state === TimerState.Focus);
+    const seconds = (list: SessionRecord[]) => list.reduce((sum, r) => sum + r.actualSeconds, 0);
+    return renderTemplate(template, {
+        focusMinutes: Math.round(seconds(focus) / 60).toString(),
+        breakMinutes: Math.round(seconds(records.filter(r => r.state !== TimerState.Focus)) / 60).toString(),
+        cycles: focus.filter(r => r.outcome === 'completed').length.toString(),
+        date: day.format("YYYY-MM-DD")
+    });
+}
+
+function createPreset(settings: ZenZoneSettings, name: string): TimerPreset {
+    const fields = JSON.parse(JSON.stringify(pickPresetFields(settings))) as PresetFields;
+    return { ...fields, id: Date.now().toString(), name };
+}
+
+function pickPresetFields(source: PresetFields): PresetFields {
+    const fields: Partial<PresetFields> = {};
+    PRESET_KEYS.forEach(key => {
+        (fields as Record<string, unknown>)[key] = source[key];
+    });
+    return fields as PresetFields;
 }
 
 const DEFAULT_MUSIC_REF_WORK: MusicReference = { trackIndex: 0, checkpointIndex: -1 };
 const DEFAULT_MUSIC_REF_BREAK: MusicReference = { trackIndex: 1, checkpointIndex: -1 };
 
-const DEFAULT_SETTINGS: ZenZoneSettings = {
+// Pads workMusic/breakMusic so every cycle has a slot. Extra slots are kept so shrinking and
+// growing the cycle count again doesn't lose choices.
+function fillMusicSchedule(settings: ZenZoneSettings) {
+    while (settings.workMusic.length < settings.cyclesBeforeLongBreak) settings.workMusic.push({ ...DEFAULT_MUSIC_REF_WORK });
+    while (settings.breakMusic.length < settings.cyclesBeforeLongBreak) settings.breakMusic.push({ ...DEFAULT_MUSIC_REF_BREAK });
+}
+
+/** Every MusicReference that points into playlistData, including the ones stored in presets. */
+function getMusicReferences(settings: ZenZoneSettings): MusicReference[] {
+    const fromFields = (fields: PresetFields) => [
+        ...fields.workMusic,
+        ...fields.breakMusic,
+        ...fields.customPhases.map(phase => phase.music)
+    ];
+    return [...fromFields(settings), ...settings.presets.flatMap(fromFields)];
+}
+
+/**
+ * Re-points music references and soundscape layers after the playlist changed shape.
+ * `map` returns the new index of an old one, or null when that track is gone.
+ */
+export function remapTrackIndexes(settings: ZenZoneSettings, map: (index: number) => number | null) {
+    getMusicReferences(settings).forEach(ref => {
+        const next = map(ref.trackIndex);
+        if (next === null) {
+            ref.trackIndex = 0;
+            ref.checkpointIndex = -1;
+        } else {
+            ref.trackIndex = next;
+        }
+    });
+    settings.soundscapes.forEach(sc => {
+        sc.layers = sc.layers.flatMap(layer => {
+            const next = map(layer.trackIndex);
+            return next === null ? [] : [{ ...layer, trackIndex: next }];
+        });
+    });
+}
+
+export const DEFAULT_SETTINGS: ZenZoneSettings = {
     playlistData: [
         { 
             title: "☕ Lofi Girl - Study", 
@@ -87,22 +554,65 @@ const DEFAULT_SETTINGS: ZenZoneSettings = {
             checkpoints: []
         }
     ],
+    playlistFilePath: "Zen Zone Playlist.md",
+    syncPlaylistFile: false,
     workDuration: TIME_CONSTRAINTS.work.default,
     shortBreakDuration: TIME_CONSTRAINTS.shortBreak.default,
     longBreakDuration: TIME_CONSTRAINTS.longBreak.default,
+    cycleMode: 'standard',
+    cyclesBeforeLongBreak: TIME_CONSTRAINTS.cycles.default,
+    customPhases: [],
     autoCollapseSidebars: false,
+    restoreLayout: true,
+    useFocusLayout: false,
+    focusLock: 'off',
+    focusLockTaskNote: true,
+    focusLockSources: [],
+    detectInterruptions: false,
+    interruptionAwaySeconds: 60,
+    breakGuide: false,
+    breathingPattern: 'box',
+    breakPrompts: [
+        "Look at something 20 feet away for 20 seconds.",
+        "Roll your shoulders back slowly, five times.",
+        "Stand up and stretch your arms overhead.",
+        "Tilt your head gently to each side.",
+        "Close your eyes and relax your jaw.",
+        "Drink a glass of water."
+    ],
+    alerts: {
+        'focus-end': { chime: 'bell', chimePath: "", notify: false },
+        'break-end': { chime: 'ding-dong', chimePath: "", notify: false },
+        'session-end': { chime: 'gong', chimePath: "", notify: false }
+    },
+    chimeVolume: 0.6,
+    reminderMinutes: 0,
     hideHeader: false,
     autoLogToDaily: false,
+    sessionLogEnabled: false,
+    sessionLogHeader: "Focus Log",
+    sessionLogTemplate: "- {{start}}–{{end}} {{icon}} {{phase}} — {{task}} ({{track}})",
+    sessionSummaryTemplate: "**Total: {{focusMinutes}} min focus · {{cycles}} cycles**",
     showStatusBarTimer: false,
+    extendMinutes: 5,
+    fadeSeconds: FADE_CONSTRAINTS.default,
     tasks: [],
+    soundscapes: [],
     workMusic: Array(4).fill(null).map(() => ({ ...DEFAULT_MUSIC_REF_WORK })),
     breakMusic: Array(4).fill(null).map(() => ({ ...DEFAULT_MUSIC_REF_BREAK })),
     dailyNoteFormat: "YYYY-MM-DD",
     dailyNoteFolder: "",
-    dailyNoteTargetHeader: "Todo"
+    dailyNoteTargetHeader: "Todo",
+    taskSources: [],
+    presets: [],
+    activePresetId: null,
+    sessionHistory: [],
+    timerSession: null,
+    focusLayout: null,
+    layoutSnapshot: null
 }
 
-enum TimerState {
+export enum TimerState {
     Idle,
     Focus,
     ShortBreak,
@@ -110,15 +620,291 @@ enum TimerState {
 }
 
 // ------------------------------------------------------------
-// 2. YouTube Iframe Wrapper (Playlist Fix Applied)
+// 2. Audio Sources (YouTube Iframe / Vault File)
 // ------------------------------------------------------------
-class YouTubeAudio {
+type PlayerStatus = 'unstarted' | 'ended' | 'playing' | 'paused' | 'buffering' | 'cued';
+
+/**
+ * Common playback API shared by every audio backend.
+ * Events: 'status' (PlayerStatus), 'time' (seconds), 'error' (human readable reason).
+ */
+interface AudioSource {
+    /** Resolves once the source accepts playback commands. */
+    readonly ready: Promise<void>;
+    readonly status: PlayerStatus;
+    /** Last reported playback position in seconds. */
+    readonly currentTime: number;
+    // status: PlayerStatus / time: 秒数 (number) / error: 理由 (string)
+    on(name: 'status' | 'time' | 'error', callback: (...data: unknown[]) => unknown): EventRef;
+    play(): void;
+    pause(): void;
+    setVolume(vol0to1: number): void;
+    seekTo(seconds: number): void;
+    destroy(): void;
+}
+
+abstract class AudioSourceBase extends Events {
+    status: PlayerStatus = 'unstarted';
+    currentTime = 0;
+
+    protected setStatus(status: PlayerStatus) {
+        if (this.status === status) return;
+        this.status = status;
+        this.trigger('status', status);
+    }
+
+    protected setTime(seconds: number) {
+        this.currentTime = seconds;
+        this.trigger('time', seconds);
+    }
+
+    protected fail(reason: string) {
+        this.trigger('error', reason);
+    }
+}
+
+const AUDIO_FILE_EXTENSIONS = ["mp3", "ogg", "wav", "flac"];
+
+type TrackSource =
+    | { kind: 'youtube', videoId: string | null, listId: string | null }
+    | { kind: 'file', file: TFile }
+    | { kind: 'generator', config: NoiseGeneratorConfig };
+
+function extractYouTubeInfo(input: string): { videoId: string | null, listId: string | null } {
+    if (!input) return { videoId: null, listId: null };
+    
+    let videoId: string | null = null;
+    let listId: string | null = null;
+
+    const listMatch = input.match(/[?&]list=([a-zA-Z0-9_-]+)/);
+    if (listMatch) {
+        listId = listMatch[1];
+    }
+
+    if (/^[a-zA-Z0-9_-]{11}$/.test(input)) {
+        videoId = input;
+    } else {
+        const regExp = /^.*(youtu\.be\/|v\/|u\/\w\/|embed\/|watch\?v=|\&v=)([^#\&\?]*).*/;
+        const match = input.match(regExp);
+        if (match && match[2].length === 11) {
+            videoId = match[2];
+        }
+    }
+
+    return { videoId, listId };
+}
+
+/**
+ * Resolves a playlist URL to a playable source: a YouTube video/playlist, or an audio file
+ * in the vault referenced by path or wiki-link (e.g. `Audio/rain.mp3`, `[[rain.mp3]]`).
+ */
+function resolveTrackSource(app: App, track: PlaylistItem): TrackSource | null {
+    if (track.generator) {
+        const { noise, tone } = track.generator;
+        return noise === 'none' && tone === 'none' ? null : { kind: 'generator', config: track.generator };
+    }
+
+    const url = track.url;
+    const info = extractYouTubeInfo(url);
+    if (info.videoId || info.listId) return { kind: 'youtube', ...info };
+
+    const trimmed = (url || "").trim();
+    if (!trimmed) return null;
+    const wikiMatch = trimmed.match(/^!?\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]$/);
+    const linkpath = wikiMatch ? wikiMatch[1].trim() : trimmed;
+
+    let file = app.vault.getAbstractFileByPath(normalizePath(linkpath));
+    if (!(file instanceof TFile)) file = app.metadataCache.getFirstLinkpathDest(linkpath, "");
+    if (file instanceof TFile && AUDIO_FILE_EXTENSIONS.includes(file.extension.toLowerCase())) {
+        return { kind: 'file', file };
+    }
+    return null;
+}
+
+/** Hands out the AudioContext that generated sources play through, created on first use. */
+type AudioContextProvider = () => AudioContext;
+
+function createAudioSource(app: App, container: HTMLElement, source: TrackSource, getContext: AudioContextProvider): AudioSource {
+    if (source.kind === 'file') return new VaultAudio(container, app.vault.getResourcePath(source.file));
+    if (source.kind === 'generator') return new NoiseGenerator(source.config, getContext);
+    return new YouTubeAudio(container, source.videoId, source.listId);
+}
+
+// --- Playlist File ---
+const PLAYLIST_FILE_KEY = "zen-zone-playlist";
+
+const NOISE_COLORS: NoiseColor[] = ['none', 'white', 'pink', 'brown'];
+const TONE_MODES: ToneMode[] = ['none', 'binaural', 'isochronic'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOneOf<T extends string>(options: readonly T[], value: unknown): value is T {
+    return typeof value === "string" && (options as readonly string[]).includes(value);
+}
+
+/** Validates one entry of a playlist file. Returns null for entries without a title or a source. */
+function normalizePlaylistItem(raw: unknown): PlaylistItem | null {
+    if (!isRecord(raw) || !raw.title) return null;
+    const item: PlaylistItem = { title: String(raw.title), url: raw.url ? String(raw.url) : "" };
+
+    const g = raw.generator;
+    if (isRecord(g)) {
+        item.generator = {
+            noise: isOneOf(NOISE_COLORS, g.noise) ? g.noise : 'none',
+            tone: isOneOf(TONE_MODES, g.tone) ? g.tone : 'none',
+            carrierHz: Number(g.carrierHz) || GENERATOR_CONSTRAINTS.carrierHz.default,
+            beatHz: Number(g.beatHz) || GENERATOR_CONSTRAINTS.beatHz.default
+        };
+    } else if (!item.url) {
+        return null;
+    }
+
+    if (Array.isArray(raw.checkpoints)) {
+        // YAML は "1:30" を数値として読むことがあるので秒数も受け付ける
+        item.checkpoints = raw.checkpoints
+            .filter((cp: unknown): cp is Record<string, unknown> => isRecord(cp) && cp.label !== undefined && cp.time !== undefined)
+            .map(cp => ({
+                label: String(cp.label),
+                time: typeof cp.time === "number" ? formatTimestamp(cp.time) : String(cp.time)
+            }));
+    }
+    return item;
+}
+
+/** Reads tracks from Markdown frontmatter or a plain YAML file. Returns null if the file is not a playlist. */
+export function parsePlaylistFile(content: string, extension: string): PlaylistItem[] | null {
+    let yaml = content;
+    if (extension === "md") {
+        const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+        if (!match) return null;
+        yaml = match[1];
+    }
+
+    let data: unknown;
+    try {
+        data = parseYaml(yaml);
+    } catch (e) {
+        console.error("ZenZone: Failed to parse playlist file", e);
+        return null;
+    }
+    const tracks: unknown = Array.isArray(data) ? data : isRecord(data) ? data.tracks : null;
+    if (!Array.isArray(tracks)) return null;
+    return tracks.map(normalizePlaylistItem).filter((t): t is PlaylistItem => t !== null);
+}
+
+function toPlaylistEntries(tracks: PlaylistItem[]): Partial<PlaylistItem>[] {
+    return tracks.map(track => {
+        const entry: Partial<PlaylistItem> = { title: track.title };
+        if (track.generator) entry.generator = { ...track.generator };
+        else entry.url = track.url;
+        if (track.checkpoints && track.checkpoints.length > 0) entry.checkpoints = track.checkpoints.map(cp => ({ ...cp }));
+        return entry;
+    });
+}
+
+/** Playlist file content: data only, since the note may be shared or synced with other people. */
+export function serializePlaylist(tracks: PlaylistItem[], extension: string): string {
+    const data = { [PLAYLIST_FILE_KEY]: 1, tracks: toPlaylistEntries(tracks) };
+    const yaml = stringifyYaml(data);
+    if (extension !== "md") return yaml;
+    return `---\n${yaml}---\n`;
+}
+
+const PLAYLIST_EXPAND_TIMEOUT_MS = 15000;
+const PLAYLIST_EXPAND_MAX_TRACKS = 200;
+const TITLE_FETCH_BATCH_SIZE = 10;
+
+/** Loads a YouTube playlist in a hidden player and returns its video ids. */
+function fetchYouTubePlaylistIds(listId: string): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+        const container = document.body.createDiv({ cls: "zen-player-hidden" });
+        const player = new YouTubeAudio(container, null, listId);
+        const finish = (ids: string[] | null, reason?: string) => {
+            clearTimeout(timeout);
+            player.destroy();
+            container.remove();
+            if (ids) resolve(ids);
+            else reject(new Error(reason));
+        };
+        // 動画 ID の一覧は IFrame API の非公開フィールド (infoDelivery.playlist) からしか取れない
+        const timeout = window.setTimeout(() => finish(null, "YouTube did not report the playlist's videos"), PLAYLIST_EXPAND_TIMEOUT_MS);
+        player.on('playlist', (ids: string[]) => finish(ids));
+        player.on('error', (reason: string) => finish(null, reason));
+    });
+}
+
+async function fetchYouTubeTitle(videoId: string): Promise<string | null> {
+    try {
+        const url = `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(`https://www.youtube.com/watch?v=${videoId}`)}`;
+        const res = await requestUrl({ url });
+        return res.json?.title ?? null;
+    } catch {
+        return null;
+    }
+}
+
+const FADE_STEP_MS = 50;
+const activeFades = new WeakMap<object, number>();
+
+/** Ramps the volume of `target` from `from` to `to`, cancelling any fade already running on it. */
+function fadeVolume(target: { setVolume(vol0to1: number): void }, from: number, to: number, seconds: number): Promise<void> {
+    const running = activeFades.get(target);
+    if (running) clearInterval(running);
+    if (seconds <= 0) {
+        target.setVolume(to);
+        return Promise.resolve();
+    }
+
+    const steps = Math.max(1, Math.round(seconds * 1000 / FADE_STEP_MS));
+    return new Promise(resolve => {
+        let step = 0;
+        const id = window.setInterval(() => {
+            step++;
+            target.setVolume(from + (to - from) * (step / steps));
+            if (step >= steps) {
+                clearInterval(id);
+                activeFades.delete(target);
+                resolve();
+            }
+        }, FADE_STEP_MS);
+        activeFades.set(target, id);
+    });
+}
+
+/** A postMessage from the YouTube IFrame API. The shape of `info` depends on `event`. */
+interface YouTubeMessage {
+    event?: string;
+    info?: unknown;
+}
+
+function isYouTubeMessage(value: unknown): value is YouTubeMessage {
+    return isRecord(value) && (value.event === undefined || typeof value.event === "string");
+}
+
+const YOUTUBE_STATES: Record<number, PlayerStatus> = {
+    [-1]: 'unstarted', 0: 'ended', 1: 'playing', 2: 'paused', 3: 'buffering', 5: 'cued'
+};
+
+const YOUTUBE_ERRORS: Record<number, string> = {
+    2: "invalid video id",
+    5: "HTML5 player error",
+    100: "video not found or removed",
+    101: "embedding disabled by the owner",
+    150: "embedding disabled by the owner"
+};
+
+const YOUTUBE_READY_TIMEOUT_MS = 15000;
+
+class YouTubeAudio extends AudioSourceBase implements AudioSource {
+    readonly ready: Promise<void>;
     private iframe: HTMLIFrameElement;
+    private onMessage: (e: MessageEvent) => void;
+    private readyTimeout: number;
     
     constructor(container: HTMLElement, videoId: string | null, listId: string | null) {
-        const existing = container.querySelector('iframe');
-        if (existing) existing.remove();
-
+        super();
         this.iframe = container.createEl("iframe");
         this.iframe.width = "0";
         this.iframe.height = "0";
@@ -139,727 +925,2596 @@ class YouTubeAudio {
         this.iframe.src = srcUrl;
         this.iframe.allow = "autoplay";
         this.iframe.style.display = "none";
+
+        // プレイヤーは "listening" を受け取ってから onReady / onStateChange / infoDelivery を返す
+        this.ready = new Promise(resolve => {
+            this.onMessage = (e: MessageEvent) => {
+                if (e.source !== this.iframe.contentWindow || typeof e.data !== "string") return;
+                let message: unknown;
+                try {
+                    message = JSON.parse(e.data);
+                } catch {
+                    return; // YouTube 以外のメッセージは無視
+                }
+                if (!isYouTubeMessage(message)) return;
+                if (message.event === 'onReady') {
+                    clearTimeout(this.readyTimeout);
+                    resolve();
+                } else {
+                    this.handlePlayerMessage(message.event, message.info);
+                }
+            };
+            window.addEventListener("message", this.onMessage);
+        });
+        this.readyTimeout = window.setTimeout(() => this.fail("player did not respond"), YOUTUBE_READY_TIMEOUT_MS);
+        this.iframe.addEventListener("load", () => this.postMessage({ 'event': 'listening' }));
     }
 
-    private postCommand(command: string, args: any[] = []) {
-        if (this.iframe.contentWindow) {
-            this.iframe.contentWindow.postMessage(JSON.stringify({
-                'event': 'command',
-                'func': command,
-                'args': args
-            }), '*');
+    private handlePlayerMessage(event: string | undefined, info: unknown) {
+        if (event === 'onStateChange' && typeof info === "number") {
+            const status = YOUTUBE_STATES[info];
+            if (status) this.setStatus(status);
+        } else if (event === 'onError') {
+            this.fail((typeof info === "number" ? YOUTUBE_ERRORS[info] : undefined) ?? `error ${info}`);
+        } else if ((event === 'infoDelivery' || event === 'initialDelivery') && isRecord(info)) {
+            const playlist = info.playlist;
+            if (Array.isArray(playlist) && playlist.length > 0 && playlist.every(id => typeof id === "string")) {
+                this.trigger('playlist', playlist);
+            }
+            if (typeof info.currentTime === "number") this.setTime(info.currentTime);
+            if (typeof info.playerState === "number" && YOUTUBE_STATES[info.playerState]) {
+                this.setStatus(YOUTUBE_STATES[info.playerState]);
+            }
         }
     }
 
+    private postMessage(message: object) {
+        this.iframe.contentWindow?.postMessage(JSON.stringify(message), '*');
+    }
+
+    // 準備完了前のコマンドは捨てられるので、ready まで待ってから送る
+    private postCommand(command: string, args: (string | number | boolean)[] = []) {
+        this.ready.then(() => this.postMessage({
+            'event': 'command',
+            'func': command,
+            'args': args
+        }));
+    }
+
     play() { this.postCommand('playVideo'); }
     pause() { this.postCommand('pauseVideo'); }
     setVolume(vol0to1: number) { this.postCommand('setVolume', [vol0to1 * 100]); }
     seekTo(seconds: number) { this.postCommand('seekTo', [seconds, true]); }
+    destroy() {
+        clearTimeout(this.readyTimeout);
+        window.removeEventListener("message", this.onMessage);
+        this.iframe.remove();
+    }
 }
 
-// ------------------------------------------------------------
-// 3. Main View
-// ------------------------------------------------------------
-class ZenView extends ItemView {
-    plugin: ZenZonePlugin;
-    timerInterval: number | null = null;
-    timeLeft: number = 0;
-    
-    currentState: TimerState = TimerState.Idle;
-    cycleCount: number = 0;
-    isMusicPlaying: boolean = false; 
+interface MixerLayer extends SoundscapeLayer {
+    title: string;
+    source: AudioSource;
+}
 
-    ytPlayer: YouTubeAudio | null = null;
-    currentVideoId: string | null = null;
-    currentVolume: number = 0.5;
+/**
+ * Plays several ambient layers at once (e.g. rain + café + lofi), each with its own
+ * volume and mute, all scaled by the master volume.
+ */
+class AmbientMixer {
+    app: App;
+    container: HTMLElement;
+    layers: MixerLayer[] = [];
+    masterVolume = 0.5;
+    isPlaying = false;
+    onLayersChange: () => void = () => {};
+    private getContext: AudioContextProvider;
+
+    constructor(app: App, container: HTMLElement, getContext: AudioContextProvider) {
+        this.app = app;
+        this.container = container;
+        this.getContext = getContext;
+    }
 
-    // UI Elements
-    taskCardEl: HTMLElement | null = null;
-    musicBtnEl: HTMLButtonElement | null = null;
-    timerDisplayEl: HTMLElement | null = null;
-    statusLabelEl: HTMLElement | null = null;
-    cycleIndicatorEl: HTMLElement | null = null;
-    
-    // Drag & Drop State
-    dragSrcIndex: number = -1;
-    taskListHeight: string | null = null;
+    /**
+     * With `fadeInSeconds`, the layer starts silent and fades in once its own source is ready,
+     * so a layer that never loads cannot hold back the others.
+     */
+    addLayer(track: PlaylistItem, layer: SoundscapeLayer, fadeInSeconds = 0): boolean {
+        const source = resolveTrackSource(this.app, track);
+        if (!source) return false;
+
+        const layerContainer = this.container.createDiv();
+        const mixerLayer: MixerLayer = { ...layer, title: track.title, source: createAudioSource(this.app, layerContainer, source, this.getContext) };
+        this.layers.push(mixerLayer);
+        if (fadeInSeconds > 0) {
+            mixerLayer.source.setVolume(0);
+            mixerLayer.source.ready.then(() => {
+                if (!this.layers.includes(mixerLayer)) return;
+                fadeVolume(mixerLayer.source, 0, this.getLayerOutput(mixerLayer), fadeInSeconds);
+            });
+        } else {
+            this.applyVolume(mixerLayer);
+        }
+        mixerLayer.source.on('error', (reason: string) => {
+            const index = this.layers.indexOf(mixerLayer);
+            if (index < 0) return;
+            new Notice(`⚠️ Layer "${mixerLayer.title}" is unavailable (${reason}).`);
+            this.removeLayer(index);
+            this.onLayersChange();
+        });
+        if (this.isPlaying) mixerLayer.source.play();
+        return true;
+    }
 
-    constructor(leaf: WorkspaceLeaf, plugin: ZenZonePlugin) {
-        super(leaf);
-        this.plugin = plugin;
-        this.timeLeft = this.plugin.settings.workDuration * 60;
+    removeLayer(index: number) {
+        const [layer] = this.layers.splice(index, 1);
+        if (layer) layer.source.destroy();
     }
 
-    getViewType() { return VIEW_TYPE_ZEN; }
-    getDisplayText() { return "Zen Zone"; }
-    getIcon() { return "zap"; }
+    setLayerVolume(index: number, volume: number) {
+        const layer = this.layers[index];
+        if (!layer) return;
+        layer.volume = volume;
+        this.applyVolume(layer);
+    }
 
-    async onOpen() {
-        const container = this.containerEl.children[1] as HTMLElement;
-        container.empty();
-        container.addClass("zen-view-container");
+    setLayerMuted(index: number, muted: boolean) {
+        const layer = this.layers[index];
+        if (!layer) return;
+        layer.muted = muted;
+        this.applyVolume(layer);
+    }
 
-        // Inject Styles for Resizer
-        const styleId = "zen-zone-styles";
-        if (!document.getElementById(styleId)) {
-            const style = document.createElement("style");
-            style.id = styleId;
-            style.innerHTML = `
-                .zen-task-list-wrapper::-webkit-resizer {
-                    background-color: var(--interactive-accent);
-                    border-radius: 4px;
-                    border: 2px solid var(--background-secondary);
-                }
-                .zen-task-list-wrapper { padding-bottom: 10px; }
-            `;
-            document.head.appendChild(style);
+    setMasterVolume(volume: number) {
+        this.masterVolume = volume;
+        this.layers.forEach(layer => this.applyVolume(layer));
+    }
+
+    play() {
+        this.isPlaying = true;
+        this.layers.forEach(layer => layer.source.play());
+    }
+
+    pause() {
+        this.isPlaying = false;
+        this.layers.forEach(layer => layer.source.pause());
+    }
+
+    clear() {
+        this.layers.forEach(layer => layer.source.destroy());
+        this.layers = [];
+    }
+
+    /** Hands the current layers over to the caller (e.g. to fade them out) and starts an empty mix. */
+    detachLayers(): MixerLayer[] {
+        const layers = this.layers;
+        this.layers = [];
+        return layers;
+    }
+
+    /** The volume a layer is actually playing at. */
+    getLayerOutput(layer: MixerLayer): number {
+        return layer.muted ? 0 : layer.volume * this.masterVolume;
+    }
+
+    toSoundscapeLayers(): SoundscapeLayer[] {
+        return this.layers.map(({ trackIndex, volume, muted }) => ({ trackIndex, volume, muted }));
+    }
+
+    private applyVolume(layer: MixerLayer) {
+        layer.source.setVolume(this.getLayerOutput(layer));
+    }
+}
+
+class VaultAudio extends AudioSourceBase implements AudioSource {
+    readonly ready: Promise<void>;
+    private audio: HTMLAudioElement;
+
+    constructor(container: HTMLElement, src: string) {
+        super();
+        this.audio = container.createEl("audio");
+        this.audio.src = src;
+        this.audio.loop = true;
+        this.audio.preload = "auto";
+        this.audio.style.display = "none";
+        this.ready = new Promise(resolve => this.audio.addEventListener("canplay", () => resolve(), { once: true }));
+
+        this.audio.addEventListener("playing", () => this.setStatus('playing'));
+        this.audio.addEventListener("pause", () => this.setStatus('paused'));
+        this.audio.addEventListener("waiting", () => this.setStatus('buffering'));
+        this.audio.addEventListener("ended", () => this.setStatus('ended'));
+        this.audio.addEventListener("timeupdate", () => this.setTime(this.audio.currentTime));
+        this.audio.addEventListener("error", () => this.fail(this.audio.error?.message || "file could not be decoded"));
+    }
+
+    play() {
+        this.audio.play().catch(err => {
+            console.error("ZenZone: Failed to play audio file", err);
+            this.fail(err.message);
+        });
+    }
+    pause() { this.audio.pause(); }
+    setVolume(vol0to1: number) { this.audio.volume = Math.min(Math.max(vol0to1, 0), 1); }
+    seekTo(seconds: number) {
+        this.ready.then(() => this.audio.currentTime = seconds);
+    }
+    destroy() {
+        this.audio.pause();
+        this.audio.removeAttribute("src");
+        this.audio.remove();
+    }
+}
+
+const NOISE_BUFFER_SECONDS = 10;
+const TONE_LEVEL = 0.3;
+
+function fillNoiseBuffer(data: Float32Array, color: Exclude<NoiseColor, 'none'>) {
+    let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0, last = 0;
+    for (let i = 0; i < data.length; i++) {
+        const white = Math.random() * 2 - 1;
+        if (color === 'white') {
+            data[i] = white * 0.5;
+        } else if (color === 'pink') {
+            // Paul Kellet's refined filter
+            b0 = 0.99886 * b0 + white * 0.0555179;
+            b1 = 0.99332 * b1 + white * 0.0750759;
+            b2 = 0.96900 * b2 + white * 0.1538520;
+            b3 = 0.86650 * b3 + white * 0.3104856;
+            b4 = 0.55000 * b4 + white * 0.5329522;
+            b5 = -0.7616 * b5 - white * 0.0168980;
+            data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+            b6 = white * 0.115926;
+        } else {
+            last = (last + 0.02 * white) / 1.02;
+            data[i] = last * 3.5;
+        }
+    }
+}
+
+function describeGenerator(config: NoiseGeneratorConfig): string {
+    const parts: string[] = [];
+    if (config.noise !== 'none') parts.push(`${config.noise} noise`);
+    if (config.tone !== 'none') parts.push(`${config.tone} ${config.carrierHz} Hz / ${config.beatHz} Hz`);
+    return `〰 ${parts.join(" + ")}`;
+}
+
+/**
+ * Noise and binaural / isochronic tones synthesized with Web Audio. The AudioContext is shared
+ * with the other generators of the view (browsers limit how many can run), so pausing only
+ * disconnects this generator's output instead of suspending the context.
+ */
+class NoiseGenerator extends AudioSourceBase implements AudioSource {
+    readonly ready = Promise.resolve();
+    private config: NoiseGeneratorConfig;
+    private getContext: AudioContextProvider;
+    private master: GainNode | null = null;
+    private nodes: AudioScheduledSourceNode[] = [];
+    private volume = 0.5;
+
+    constructor(config: NoiseGeneratorConfig, getContext: AudioContextProvider) {
+        super();
+        this.config = { ...config };
+        this.getContext = getContext;
+    }
+
+    play() {
+        let ctx: AudioContext;
+        try {
+            ctx = this.getContext();
+            if (!this.master) this.build(ctx);
+            this.master?.connect(ctx.destination);
+        } catch (err) {
+            console.error("ZenZone: Failed to start noise generator", err);
+            this.fail(err.message);
+            return;
+        }
+        ctx.resume()
+            .then(() => {
+                if (this.master) this.setStatus('playing');
+            })
+            .catch(err => {
+                console.error("ZenZone: Failed to start noise generator", err);
+                this.fail(err.message);
+            });
+    }
+    pause() {
+        this.master?.disconnect();
+        this.setStatus('paused');
+    }
+    setVolume(vol0to1: number) {
+        this.volume = Math.min(Math.max(vol0to1, 0), 1);
+        if (this.master) this.master.gain.value = this.volume;
+    }
+    seekTo(_seconds: number) { /* 生成音なのでシーク位置はない */ }
+    destroy() {
+        this.nodes.forEach(node => node.stop());
+        this.nodes = [];
+        this.master?.disconnect();
+        this.master = null;
+    }
+
+    private build(ctx: AudioContext) {
+        const master = ctx.createGain();
+        master.gain.value = this.volume;
+        this.master = master;
+
+        const { noise, tone, carrierHz, beatHz } = this.config;
+        if (noise !== 'none') {
+            const buffer = ctx.createBuffer(1, ctx.sampleRate * NOISE_BUFFER_SECONDS, ctx.sampleRate);
+            fillNoiseBuffer(buffer.getChannelData(0), noise);
+            const src = ctx.createBufferSource();
+            src.buffer = buffer;
+            src.loop = true;
+            src.connect(master);
+            src.start();
+            this.nodes.push(src);
+        }
+
+        if (tone === 'binaural') {
+            // 左右の耳に beatHz だけずらした周波数を流す
+            [-1, 1].forEach(side => {
+                const osc = ctx.createOscillator();
+                osc.frequency.value = carrierHz + side * beatHz / 2;
+                const pan = ctx.createStereoPanner();
+                pan.pan.value = side;
+                const gain = ctx.createGain();
+                gain.gain.value = TONE_LEVEL;
+                osc.connect(gain).connect(pan).connect(master);
+                osc.start();
+                this.nodes.push(osc);
+            });
+        } else if (tone === 'isochronic') {
+            // 矩形波 LFO で音量を 0 ↔ TONE_LEVEL に切り替える
+            const osc = ctx.createOscillator();
+            osc.frequency.value = carrierHz;
+            const gate = ctx.createGain();
+            gate.gain.value = TONE_LEVEL / 2;
+            const lfo = ctx.createOscillator();
+            lfo.type = 'square';
+            lfo.frequency.value = beatHz;
+            const depth = ctx.createGain();
+            depth.gain.value = TONE_LEVEL / 2;
+            lfo.connect(depth).connect(gate.gain);
+            osc.connect(gate).connect(master);
+            osc.start();
+            lfo.start();
+            this.nodes.push(osc, lfo);
+        }
+    }
+}
+
+const ALERT_LABELS: Record<AlertTransition, { name: string; message: string }> = {
+    'focus-end': { name: "Focus ends", message: "☕ Focus complete. Time for a break." },
+    'break-end': { name: "Break ends", message: "🔔 Break is over. Back to Focus." },
+    'session-end': { name: "Session ends", message: "🎉 All cycles complete!" }
+};
+
+// 同梱のチャイム: [周波数 Hz, 開始秒, 減衰までの秒数]
+const CHIMES: Record<Exclude<ChimeId, 'none' | 'vault'>, { name: string; notes: [number, number, number][] }> = {
+    'bell': { name: "Bell", notes: [[880, 0, 1.6], [1760, 0, 0.8]] },
+    'ding-dong': { name: "Ding-dong", notes: [[659, 0, 1.0], [523, 0.45, 1.4]] },
+    'gong': { name: "Gong", notes: [[196, 0, 3.5], [294, 0, 2.5], [392, 0.05, 1.5]] }
+};
+
+/** Plays alert chimes independently of the music player, at their own volume. */
+class ChimePlayer {
+    private ctx: AudioContext | null = null;
+
+    async play(app: App, alert: PhaseAlert, volume: number) {
+        if (alert.chime === 'none' || volume <= 0) return;
+        try {
+            if (alert.chime === 'vault') {
+                const source = resolveTrackSource(app, { title: "", url: alert.chimePath });
+                if (source?.kind !== 'file') {
+                    new Notice(`⚠️ Chime file not found: ${alert.chimePath}`);
+                    return;
+                }
+                const audio = new Audio(app.vault.getResourcePath(source.file));
+                audio.volume = Math.min(Math.max(volume, 0), 1);
+                await audio.play();
+                return;
+            }
+            this.playNotes(CHIMES[alert.chime].notes, volume);
+        } catch (e) {
+            console.error("ZenZone: Failed to play chime", e);
+        }
+    }
+
+    destroy() {
+        this.ctx?.close();
+        this.ctx = null;
+    }
+
+    private playNotes(notes: [number, number, number][], volume: number) {
+        if (!this.ctx) this.ctx = new AudioContext();
+        const ctx = this.ctx;
+        ctx.resume();
+        const now = ctx.currentTime;
+        notes.forEach(([freq, offset, decay]) => {
+            const osc = ctx.createOscillator();
+            osc.frequency.value = freq;
+            const gain = ctx.createGain();
+            // 鐘のように、立ち上がりを速く・減衰をゆっくりにする
+            gain.gain.setValueAtTime(0.0001, now + offset);
+            gain.gain.exponentialRampToValueAtTime(Math.max(volume, 0.0001) * TONE_LEVEL, now + offset + 0.02);
+            gain.gain.exponentialRampToValueAtTime(0.0001, now + offset + decay);
+            osc.connect(gain).connect(ctx.destination);
+            osc.start(now + offset);
+            osc.stop(now + offset + decay + 0.1);
+        });
+    }
+}
+
+// ------------------------------------------------------------
+// 3. Timer Service
+// ------------------------------------------------------------
+/** Time source for ZenTimer. Swap in a fake clock to drive the timer without waiting. */
+export interface Clock {
+    now(): number;
+}
+
+const systemClock: Clock = { now: () => Date.now() };
+
+/** Timer callbacks for ZenTimer. Swap in a fake scheduler (together with the clock) in tests. */
+export interface Scheduler {
+    setInterval(callback: () => void, ms: number): number;
+    clearInterval(id: number): void;
+    setTimeout(callback: () => void, ms: number): number;
+    clearTimeout(id: number): void;
+}
+
+const windowScheduler: Scheduler = {
+    setInterval: (callback, ms) => window.setInterval(callback, ms),
+    clearInterval: (id) => window.clearInterval(id),
+    setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+    clearTimeout: (id) => window.clearTimeout(id)
+};
+
+// これより前に締切を過ぎたフェーズ (スリープ中・終了中) は通知せずにまとめて処理する
+const CATCH_UP_THRESHOLD_MS = 5000;
+
+/** Seconds left until the deadline, never negative. */
+function getRemainingSeconds(endTime: number, now: number): number {
+    return Math.max(0, Math.ceil((endTime - now) / 1000));
+}
+
+/**
+ * Expands the settings into the ordered list of phases for one session.
+ * Standard mode: N x (Focus + Short Break), with the last break being the long one.
+ */
+export function buildPhaseSequence(settings: ZenZoneSettings): PhaseDefinition[] {
+    if (settings.cycleMode === 'custom' && settings.customPhases.length > 0) {
+        return settings.customPhases;
+    }
+
+    const phases: PhaseDefinition[] = [];
+    const cycles = settings.cyclesBeforeLongBreak;
+    for (let i = 0; i < cycles; i++) {
+        const isLongBreak = (i === cycles - 1);
+        phases.push({
+            type: TimerState.Focus,
+            duration: settings.workDuration,
+            music: settings.workMusic[i] || DEFAULT_MUSIC_REF_WORK
+        });
+        phases.push({
+            type: isLongBreak ? TimerState.LongBreak : TimerState.ShortBreak,
+            duration: isLongBreak ? settings.longBreakDuration : settings.shortBreakDuration,
+            music: settings.breakMusic[i] || DEFAULT_MUSIC_REF_BREAK
+        });
+    }
+    return phases;
+}
+
+/** A copy of the phase sequence that later edits to the settings cannot change. */
+function snapshotPhaseSequence(settings: ZenZoneSettings): PhaseDefinition[] {
+    return JSON.parse(JSON.stringify(buildPhaseSequence(settings)));
+}
+
+/** Index of the phase after `index`, or null when the session is complete. */
+function getNextPhaseIndex(phases: PhaseDefinition[], index: number): number | null {
+    return index + 1 < phases.length ? index + 1 : null;
+}
+
+/** 0-based cycle (= Focus phase) that the phase at `index` belongs to. */
+function getCycleIndex(phases: PhaseDefinition[], index: number): number {
+    const focusCount = phases.slice(0, index + 1).filter(p => p.type === TimerState.Focus).length;
+    return Math.max(0, focusCount - 1);
+}
+
+function countCycles(phases: PhaseDefinition[]): number {
+    return phases.filter(p => p.type === TimerState.Focus).length;
+}
+
+interface TimerSnapshot {
+    state: TimerState;
+    phaseIndex: number;
+    cycleCount: number;
+    endTime: number | null; // 実行中のみ: フェーズ終了時刻 (epoch ms)
+    remainingSeconds: number;
+    isPaused?: boolean;
+    pausedAt?: number | null;
+    phaseStartedAt: number | null;
+    phasePlannedSeconds: number;
+    phasePausedSeconds?: number;
+    phaseDistractions?: number;
+    phaseInterruptions?: Interruption[];
+    phases?: PhaseDefinition[]; // セッション開始時に確定したフェーズ列
+}
+
+/**
+ * Plugin-level Pomodoro timer. Lives independently of ZenView so that a running
+ * session survives closing the leaf, and is persisted (as an absolute end time)
+ * so that it can be resumed after Obsidian restarts.
+ *
+ * Remaining time is always derived from the deadline and the injected clock, so
+ * throttled or missed ticks never make a phase run long. Ticks come from the injected
+ * scheduler, so tests can drive the timer with a fake clock (see tests/zen-timer.test.ts).
+ *
+ * While paused, `state` keeps the paused phase so that resuming continues it.
+ *
+ * The phase sequence is fixed when a session starts; changes to the settings or a preset
+ * applied mid-session take effect from the next session.
+ *
+ * Events: 'tick', 'state-change', 'phase-start' (phase: PhaseDefinition), 'pause', 'resume', 'interruption'
+ */
+export class ZenTimer extends Events {
+    plugin: ZenZonePlugin;
+    clock: Clock;
+    scheduler: Scheduler;
+    state: TimerState = TimerState.Idle;
+    phaseIndex = 0;
+    cycleCount = 0;
+    endTime: number | null = null;
+    remainingSeconds = 0;
+    isPaused = false;
+    pausedAt: number | null = null;
+
+    // Phase Tracking (for session history)
+    phaseStartedAt: number | null = null;
+    phasePlannedSeconds = 0;
+    phasePausedSeconds = 0;
+    phaseDistractions = 0;
+    phaseInterruptions: Interruption[] = [];
+
+    private timerInterval: number | null = null;
+    private deadlineTimeout: number | null = null;
+    private sessionPhases: PhaseDefinition[] | null = null;
+
+    constructor(plugin: ZenZonePlugin, clock: Clock = systemClock, scheduler: Scheduler = windowScheduler) {
+        super();
+        this.plugin = plugin;
+        this.clock = clock;
+        this.scheduler = scheduler;
+        this.remainingSeconds = this.getPhaseDuration(0);
+    }
+
+    get phases(): PhaseDefinition[] {
+        return this.sessionPhases ?? buildPhaseSequence(this.plugin.settings);
+    }
+
+    get currentPhase(): PhaseDefinition | null {
+        const phases = this.phases;
+        return phases[Math.min(this.phaseIndex, phases.length - 1)] || null;
+    }
+
+    get totalCycles(): number {
+        return countCycles(this.phases);
+    }
+
+    get isRunning(): boolean {
+        return this.endTime !== null;
+    }
+
+    get timeLeft(): number {
+        if (this.endTime === null) return this.remainingSeconds;
+        return getRemainingSeconds(this.endTime, this.clock.now());
+    }
+
+    get hasProgress(): boolean {
+        return this.isRunning || this.isPaused;
+    }
+
+    /** Duration of the phase at `index` in seconds. */
+    getPhaseDuration(index: number): number {
+        const phase = this.phases[index];
+        return phase ? Math.round(phase.duration * 60) : 0;
+    }
+
+    /** Re-reads the first phase's duration when the settings change before the session started. */
+    syncIdleDuration() {
+        if (this.hasProgress) return;
+        this.remainingSeconds = this.getPhaseDuration(0);
+        this.trigger('state-change');
+    }
+
+    // --- Controls ---
+    /** Starts a new session or resumes the paused phase. Returns true when a fresh phase was started. */
+    start(): boolean {
+        if (this.isRunning) return false;
+        if (this.isPaused) {
+            this.resume();
+            return false;
+        }
+
+        this.sessionPhases = snapshotPhaseSequence(this.plugin.settings);
+        this.startCycle(0);
+        void this.plugin.enterZenMode();
+        return true;
+    }
+
+    /** Pauses the current phase without leaving the session. */
+    pause() {
+        if (!this.isRunning) return;
+        this.stopTimer();
+        this.isPaused = true;
+        this.pausedAt = this.clock.now();
+        this.plugin.updateStatusBar(`⏸ ${formatTime(this.remainingSeconds)}`);
+        this.trigger('pause');
+        this.trigger('state-change');
+        this.persist();
+    }
+
+    resume() {
+        if (!this.isPaused) return;
+        this.clearPause();
+        this.runTimer();
+        this.trigger('resume');
+        this.trigger('state-change');
+        this.persist();
+        this.tick();
+    }
+
+    reset() {
+        this.stopTimer();
+        this.recordPhase('aborted');
+        this.isPaused = false;
+        this.pausedAt = null;
+        this.state = TimerState.Idle;
+        this.phaseIndex = 0;
+        this.cycleCount = 0;
+        this.sessionPhases = null;
+        this.remainingSeconds = this.getPhaseDuration(0);
+        void this.plugin.exitZenMode();
+        this.plugin.updateStatusBar("");
+        this.trigger('tick');
+        this.trigger('state-change');
+        this.persist();
+    }
+
+    /** Ends the current phase early and moves on to the next one. */
+    skip() {
+        if (!this.hasProgress) {
+            new Notice("Timer is not running.");
+            return;
+        }
+        const now = this.clock.now();
+        this.stopTimer();
+        this.recordPhase('skipped', now);
+        if (this.isPaused) {
+            this.clearPause();
+            this.trigger('resume');
+        }
+
+        const nextIndex = getNextPhaseIndex(this.phases, this.phaseIndex);
+        if (nextIndex === null) {
+            this.reset();
+            this.trigger('session-end');
+            new Notice("⏭ Session finished.");
+            return;
+        }
+        this.startCycle(nextIndex, now);
+        new Notice(`⏭ Skipped to ${getPhaseLabel(this.state)}`);
+    }
+
+    /** Adds `minutes` to the current phase. */
+    extend(minutes: number) {
+        if (!this.hasProgress) {
+            new Notice("Timer is not running.");
+            return;
+        }
+        const seconds = minutes * 60;
+        this.phasePlannedSeconds += seconds;
+        if (this.endTime !== null) {
+            this.endTime += seconds * 1000;
+            this.runTimer();
+        } else {
+            this.remainingSeconds += seconds;
+        }
+        this.trigger('tick');
+        this.persist();
+        new Notice(`⏱ +${minutes} min (${formatTime(this.timeLeft)} left)`);
+    }
+
+    startCycle(index: number, startedAt: number = this.clock.now()) {
+        const phases = this.phases;
+        const phase = phases[index];
+        if (!phase) return;
+
+        this.phaseIndex = index;
+        this.state = phase.type;
+        this.cycleCount = getCycleIndex(phases, index);
+        this.remainingSeconds = this.getPhaseDuration(index);
+        this.endTime = startedAt + this.remainingSeconds * 1000;
+        this.beginPhase(startedAt);
+
+        this.trigger('phase-start', phase);
+        this.trigger('state-change');
+        this.runTimer();
+        this.persist();
+    }
+
+    private runTimer() {
+        this.clearSchedule();
+        if (this.endTime === null) this.endTime = this.clock.now() + this.remainingSeconds * 1000;
+
+        this.timerInterval = this.scheduler.setInterval(() => this.tick(), 1000);
+        // interval は throttle されうるので、フェーズ終了は締切時刻に直接スケジュールする
+        this.deadlineTimeout = this.scheduler.setTimeout(() => this.tick(), Math.max(0, this.endTime - this.clock.now()));
+    }
+
+    tick() {
+        this.catchUp();
+        if (!this.isRunning) return;
+
+        this.trigger('tick');
+
+        let icon = "⏳";
+        if (this.state === TimerState.Focus) icon = "🔥";
+        else if (this.state !== TimerState.Idle) icon = "☕";
+        this.plugin.updateStatusBar(`${icon} ${formatTime(this.timeLeft)}`);
+    }
+
+    /** Re-reads the clock, e.g. when the window becomes visible again or the system wakes up. */
+    resync() {
+        if (this.isRunning) this.tick();
+    }
+
+    /** Completes every phase whose deadline has passed, each at its own deadline. */
+    private catchUp() {
+        while (this.endTime !== null && this.endTime <= this.clock.now()) {
+            this.handlePhaseComplete(this.endTime);
+        }
+    }
+
+    private clearSchedule() {
+        if (this.timerInterval !== null) {
+            this.scheduler.clearInterval(this.timerInterval);
+            this.timerInterval = null;
+        }
+        if (this.deadlineTimeout !== null) {
+            this.scheduler.clearTimeout(this.deadlineTimeout);
+            this.deadlineTimeout = null;
+        }
+    }
+
+    private clearPause() {
+        if (this.pausedAt !== null) this.phasePausedSeconds += (this.clock.now() - this.pausedAt) / 1000;
+        this.isPaused = false;
+        this.pausedAt = null;
+    }
+
+    private stopTimer() {
+        this.clearSchedule();
+        if (this.endTime !== null) {
+            this.remainingSeconds = this.timeLeft;
+            this.endTime = null;
+        }
+    }
+
+    private handlePhaseComplete(completedAt: number) {
+        this.stopTimer();
+        this.recordPhase('completed', completedAt);
+
+        const isLive = this.clock.now() - completedAt < CATCH_UP_THRESHOLD_MS;
+        const nextIndex = getNextPhaseIndex(this.phases, this.phaseIndex);
+
+        if (isLive) this.plugin.alertPhaseEnd(this.state, nextIndex !== null ? this.phases[nextIndex].type : null);
+
+        if (nextIndex !== null) {
+            this.startCycle(nextIndex, completedAt);
+        } else {
+            if (isLive) this.plugin.showBreakOverlay(this.totalCycles);
+            this.reset();
+            this.trigger('session-end');
+            if (isLive) new Notice("🎉 All Cycles Complete!");
+        }
+    }
+
+    // --- Session History ---
+    private beginPhase(startedAt: number = this.clock.now()) {
+        this.phaseStartedAt = startedAt;
+        this.phasePlannedSeconds = this.remainingSeconds;
+        this.phasePausedSeconds = 0;
+        this.phaseDistractions = 0;
+        this.phaseInterruptions = [];
+    }
+
+    /** Counts an attempt to leave the focus notes against the current phase. */
+    recordDistraction() {
+        if (this.phaseStartedAt === null) return;
+        this.phaseDistractions++;
+        this.persist();
+        this.trigger('interruption');
+    }
+
+    /** Logs an interruption against the running Focus phase. Returns false outside Focus. */
+    logInterruption(kind: Interruption['kind'], note?: string, auto = false): boolean {
+        if (this.phaseStartedAt === null || this.state !== TimerState.Focus) return false;
+        return this.logInterruptionInPhase(this.phaseStartedAt, { kind, at: this.clock.now(), note: note || undefined, auto: auto || undefined });
+    }
+
+    /**
+     * Logs an interruption against the Focus phase that started at `phaseStartedAt`, also when that
+     * phase has already been recorded (e.g. the user was away past its end). Returns false if there is no such phase.
+     */
+    logInterruptionInPhase(phaseStartedAt: number, interruption: Interruption): boolean {
+        if (phaseStartedAt === this.phaseStartedAt && this.state === TimerState.Focus) {
+            this.phaseInterruptions.push(interruption);
+            this.persist();
+            this.trigger('interruption');
+            return true;
+        }
+        const record = this.plugin.settings.sessionHistory.find(r => r.startedAt === phaseStartedAt && r.state === TimerState.Focus);
+        if (!record) return false;
+        record.interruptions = [...(record.interruptions ?? []), interruption];
+        this.plugin.saveSettings();
+        return true;
+    }
+
+    private recordPhase(outcome: SessionRecord['outcome'], endedAt: number = this.clock.now()) {
+        if (this.phaseStartedAt === null || this.state === TimerState.Idle) return;
+        const activeTask = this.plugin.settings.tasks[0];
+        const pausedSeconds = this.phasePausedSeconds + (this.pausedAt !== null ? (endedAt - this.pausedAt) / 1000 : 0);
+        const record: SessionRecord = {
+            id: `${this.phaseStartedAt}-${this.state}`,
+            state: this.state,
+            outcome: outcome,
+            startedAt: this.phaseStartedAt,
+            endedAt: endedAt,
+            plannedSeconds: this.phasePlannedSeconds,
+            actualSeconds: Math.max(0, Math.round((endedAt - this.phaseStartedAt) / 1000 - pausedSeconds)),
+            pausedSeconds: pausedSeconds > 0 ? Math.round(pausedSeconds) : undefined,
+            cycleCount: this.cycleCount,
+            taskId: activeTask?.id,
+            taskContent: activeTask?.content,
+            trackTitle: this.plugin.getPlayingTrackTitle() ?? undefined,
+            distractions: this.phaseDistractions > 0 ? this.phaseDistractions : undefined,
+            interruptions: this.phaseInterruptions.length > 0 ? this.phaseInterruptions : undefined
+        };
+        this.phaseStartedAt = null;
+        this.plugin.addSessionRecord(record);
+    }
+
+    // --- Persistence ---
+    toSnapshot(): TimerSnapshot {
+        return {
+            state: this.state,
+            phaseIndex: this.phaseIndex,
+            cycleCount: this.cycleCount,
+            endTime: this.endTime,
+            remainingSeconds: this.remainingSeconds,
+            isPaused: this.isPaused,
+            pausedAt: this.pausedAt,
+            phaseStartedAt: this.phaseStartedAt,
+            phasePlannedSeconds: this.phasePlannedSeconds,
+            phasePausedSeconds: this.phasePausedSeconds,
+            phaseDistractions: this.phaseDistractions,
+            phaseInterruptions: this.phaseInterruptions,
+            phases: this.sessionPhases ?? undefined
+        };
+    }
+
+    private persist() {
+        this.plugin.settings.timerSession = this.toSnapshot();
+        this.plugin.saveSettings();
+    }
+
+    /** Restores a persisted session, completing any phases that elapsed while Obsidian was closed. */
+    restore(snapshot: TimerSnapshot | null) {
+        if (!snapshot) return;
+        this.state = snapshot.state;
+        // phaseIndex のない旧スナップショットは Focus/Break の交互順から推定する
+        this.phaseIndex = snapshot.phaseIndex ?? snapshot.cycleCount * 2 + (snapshot.state === TimerState.Focus ? 0 : 1);
+        this.cycleCount = snapshot.cycleCount;
+        this.endTime = snapshot.endTime;
+        this.remainingSeconds = snapshot.remainingSeconds;
+        this.isPaused = snapshot.isPaused ?? false;
+        this.pausedAt = snapshot.pausedAt ?? null;
+        this.phaseStartedAt = snapshot.phaseStartedAt;
+        this.phasePlannedSeconds = snapshot.phasePlannedSeconds;
+        this.phasePausedSeconds = snapshot.phasePausedSeconds ?? 0;
+        this.phaseDistractions = snapshot.phaseDistractions ?? 0;
+        this.phaseInterruptions = snapshot.phaseInterruptions ?? [];
+        // フェーズ列のない旧スナップショットは現在の設定で確定させる
+        const inSession = this.endTime !== null || this.isPaused;
+        this.sessionPhases = snapshot.phases ?? (inSession ? snapshotPhaseSequence(this.plugin.settings) : null);
+
+        if (this.isPaused) {
+            void this.plugin.enterZenMode();
+            this.plugin.updateStatusBar(`⏸ ${formatTime(this.remainingSeconds)}`);
+        }
+        if (this.endTime === null) {
+            if (!this.isPaused) this.remainingSeconds = this.getPhaseDuration(0);
+            this.trigger('state-change');
+            return;
+        }
+
+        this.catchUp();
+
+        if (this.isRunning) {
+            this.runTimer();
+            void this.plugin.enterZenMode();
+            this.trigger('state-change');
+            new Notice(`⏱ Resumed session (${formatTime(this.timeLeft)} left)`);
+        }
+    }
+
+    destroy() {
+        this.clearSchedule();
+    }
+}
+
+// ------------------------------------------------------------
+// 4. Main View
+// ------------------------------------------------------------
+/** What the Zen view is playing, carried over when a layout swap rebuilds the view. */
+interface AudioState {
+    playing: boolean;
+    volume: number;
+    trackIndex: number; // -1: 曲なし（サウンドスケープのみ）
+    position: number;
+    title: string | null;
+    layers: SoundscapeLayer[];
+    soundscapeId: string;
+}
+
+class ZenView extends ItemView {
+    plugin: ZenZonePlugin;
+    isMusicPlaying: boolean = false; 
+    isFadingOut = false;
+    failedTrackIndexes = new Set<number>();
+    musicPausedByTimer = false;
+
+    audioPlayer: AudioSource | null = null;
+    mixer: AmbientMixer | null = null;
+    currentTrackTitle: string | null = null;
+    currentTrackIndex = -1;
+    currentCheckpoints: Checkpoint[] = [];
+    currentVolume: number = 0.5;
+    private audioContext: AudioContext | null = null;
+
+    // UI Elements
+    taskCardEl: HTMLElement | null = null;
+    interruptionsEl: HTMLElement | null = null;
+    musicBtnEl: HTMLButtonElement | null = null;
+    volumeSliderEl: HTMLInputElement | null = null;
+    checkpointsEl: HTMLElement | null = null;
+    mixerLayersEl: HTMLElement | null = null;
+    soundscapeSelectEl: HTMLSelectElement | null = null;
+    trackSelectEl: HTMLSelectElement | null = null;
+    layerSelectEl: HTMLSelectElement | null = null;
+    toggleBtnEl: HTMLButtonElement | null = null;
+    presetSelectEl: HTMLSelectElement | null = null;
+    phaseControlsEl: HTMLElement | null = null;
+    timerDisplayEl: HTMLElement | null = null;
+    statusLabelEl: HTMLElement | null = null;
+    cycleIndicatorEl: HTMLElement | null = null;
+    
+    // Drag & Drop State
+    dragSrcIndex: number = -1;
+    taskListHeight: string | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: ZenZonePlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType() { return VIEW_TYPE_ZEN; }
+    getDisplayText() { return "Zen Zone"; }
+    getIcon() { return "zap"; }
+
+    async onOpen() {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass("zen-view-container");
+
+        // Inject Styles for Resizer
+        const styleId = "zen-zone-styles";
+        if (!document.getElementById(styleId)) {
+            const style = document.createElement("style");
+            style.id = styleId;
+            style.innerHTML = `
+                .zen-task-list-wrapper::-webkit-resizer {
+                    background-color: var(--interactive-accent);
+                    border-radius: 4px;
+                    border: 2px solid var(--background-secondary);
+                }
+                .zen-task-list-wrapper { padding-bottom: 10px; }
+            `;
+            document.head.appendChild(style);
+        }
+
+        const header = container.createDiv({ cls: "zen-header" });
+        header.createEl("h2", { text: "Zen Zone" }).style.margin = "10px 0 5px 0";
+
+        const timer = this.plugin.timer;
+        this.registerEvent(timer.on('tick', () => this.updateTimerDisplay()));
+        this.registerEvent(timer.on('state-change', () => this.updateStatusDisplay()));
+        this.registerEvent(timer.on('phase-start', (phase: PhaseDefinition) => this.playSceneMusic(phase)));
+        this.registerEvent(timer.on('pause', () => this.handleTimerPause()));
+        this.registerEvent(timer.on('resume', () => this.handleTimerResume()));
+        this.registerEvent(timer.on('session-end', () => this.fadeOutMusic()));
+        this.registerEvent(timer.on('interruption', () => this.renderInterruptions()));
+        this.registerEvent(timer.on('state-change', () => this.renderInterruptions()));
+        
+        // Task Card
+        this.taskCardEl = container.createDiv({ cls: "zen-card zen-task-card" });
+        this.renderTaskCard(this.taskCardEl);
+
+        // Timer Card
+        const timerCardEl = container.createDiv();
+        this.renderTimerCard(timerCardEl);
+
+        // Audio Card
+        const audioCardEl = container.createDiv();
+        this.renderAudioCard(audioCardEl);
+
+        const footer = container.createDiv({
+            text: "Cycle & Music settings in plugin options.",
+            cls: "zen-footer-note"
+        });
+        const statsLink = footer.createDiv({ cls: "zen-footer-link", text: "📊 View Statistics" });
+        statsLink.onclick = () => this.plugin.activateStatsView();
+    }
+
+    // --- Task UI ---
+    renderTaskCard(container: HTMLElement) {
+        container.empty();
+
+        const focusWrapper = container.createDiv({ cls: "zen-task-focus-wrapper" });
+        focusWrapper.createDiv({ text: "🔥 Current Focus", cls: "zen-sub-label" });
+
+        const activeTask = this.plugin.settings.tasks[0];
+        const focusDisplay = focusWrapper.createDiv({ cls: "zen-task-focus-display" });
+
+        if (activeTask) {
+            const cb = focusDisplay.createEl("input", { type: "checkbox", cls: "zen-task-cb-large" });
+            cb.checked = false;
+            cb.onclick = async () => {
+                cb.checked = true;
+                setTimeout(async () => {
+                    if (this.plugin.settings.tasks.includes(activeTask)) {
+                        await this.plugin.completeTask(activeTask);
+                        new Notice("Task Completed! 🎉");
+                    }
+                }, 500);
+            };
+
+            const textSpan = focusDisplay.createSpan({ text: activeTask.content, cls: "zen-task-text-large" });
+            this.renderPomodoroBadge(focusDisplay, activeTask);
+            if (activeTask.conflict) this.renderTaskConflict(focusDisplay, activeTask);
+            if (activeTask.header) {
+                const headerTag = textSpan.createSpan({ text: ` [${activeTask.header}]`, cls: "zen-task-header-tag" });
+                headerTag.setAttribute("style", "font-size: 0.6em; color: var(--text-muted); margin-left: 8px; vertical-align: middle;");
+            }
+        } else {
+            focusDisplay.createSpan({ text: "No active tasks. Great job! 🎉", cls: "zen-task-text-placeholder" });
+        }
+
+        this.interruptionsEl = focusWrapper.createDiv({ cls: "zen-interruptions" });
+        this.renderInterruptions();
+
+        const inputWrapper = container.createDiv({ cls: "zen-task-input-wrapper" });
+        const defaultHeader = this.plugin.settings.dailyNoteTargetHeader || "Todo";
+        const headerInput = inputWrapper.createEl("input", { type: "text", placeholder: defaultHeader, cls: "zen-task-add-input" });
+        headerInput.style.flexGrow = "0";
+        headerInput.style.width = "80px";
+        headerInput.style.minWidth = "60px";
+        headerInput.title = "Target Header (Optional)";
+
+        const taskInput = inputWrapper.createEl("input", { type: "text", placeholder: "Add a new task...", cls: "zen-task-add-input" });
+        taskInput.title = "Append 🍅3 to estimate three pomodoros";
+
+        const handleAddTask = async () => {
+            if (!taskInput.value.trim()) return;
+            await this.plugin.addTask(taskInput.value.trim(), headerInput.value.trim() || undefined);
+            taskInput.value = "";
+        };
+
+        taskInput.addEventListener("keypress", (e) => { if (e.key === "Enter") handleAddTask(); });
+        headerInput.addEventListener("keypress", (e) => { if (e.key === "Enter") taskInput.focus(); });
+
+        const addBtn = inputWrapper.createEl("button", { text: "+", cls: "zen-task-add-btn" });
+        addBtn.onclick = handleAddTask;
+
+        const pullBtn = inputWrapper.createEl("button", { cls: "zen-task-control-btn" });
+        pullBtn.title = "Pull tasks from sources";
+        setIcon(pullBtn, "download");
+        pullBtn.onclick = () => this.plugin.pullTasks();
+
+        const listWrapper = container.createDiv({ cls: "zen-task-list-wrapper" });
+        listWrapper.style.resize = "vertical";
+        listWrapper.style.overflow = "auto";
+        listWrapper.style.minHeight = "100px";
+        listWrapper.style.maxHeight = "none";
+        listWrapper.style.paddingBottom = "5px";
+        
+        if (this.taskListHeight) {
+            listWrapper.style.height = this.taskListHeight;
+        } else {
+            listWrapper.style.height = "200px";
+        }
+
+        listWrapper.addEventListener('dragover', (e) => { e.preventDefault(); if(e.dataTransfer) e.dataTransfer.dropEffect = 'move'; });
+        listWrapper.addEventListener('drop', async (e) => {
+            e.preventDefault();
+            if (e.target === listWrapper && this.dragSrcIndex > -1) {
+                const tasks = this.plugin.settings.tasks;
+                const [moved] = tasks.splice(this.dragSrcIndex, 1);
+                tasks.push(moved);
+                await this.plugin.saveSettings();
+                this.renderTaskCardRefresh();
+                this.dragSrcIndex = -1;
+            }
+        });
+
+        if (this.plugin.settings.tasks.length > 0) {
+            this.plugin.settings.tasks.forEach((task, index) => {
+                const row = listWrapper.createDiv({ cls: "zen-task-row" });
+                row.draggable = true;
+                row.style.cursor = "move";
+
+                row.addEventListener('dragstart', (e) => {
+                    this.dragSrcIndex = index;
+                    row.style.opacity = '0.4';
+                    if(e.dataTransfer) {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', index.toString());
+                    }
+                });
+
+                row.addEventListener('dragover', (e) => { e.preventDefault(); if(e.dataTransfer) e.dataTransfer.dropEffect = 'move'; return false; });
+                row.addEventListener('drop', async (e) => {
+                    e.stopPropagation();
+                    if (this.dragSrcIndex !== index && this.dragSrcIndex > -1) {
+                        const tasks = this.plugin.settings.tasks;
+                        const [movedTask] = tasks.splice(this.dragSrcIndex, 1);
+                        tasks.splice(index, 0, movedTask);
+                        await this.plugin.saveSettings();
+                        this.renderTaskCardRefresh();
+                    }
+                    return false;
+                });
+                row.addEventListener('dragend', () => { row.style.opacity = '1'; this.dragSrcIndex = -1; });
+
+                const cb = row.createEl("input", { type: "checkbox", cls: "zen-task-cb" });
+                cb.checked = false;
+                cb.onclick = async () => {
+                    cb.checked = true;
+                    row.addClass('is-completed');
+                    setTimeout(async () => {
+                        if (this.plugin.settings.tasks.includes(task)) await this.plugin.completeTask(task);
+                    }, 500);
+                };
+
+                const textSpan = row.createSpan({ cls: "zen-task-text" });
+                textSpan.setText(task.content);
+                if (task.filePath) textSpan.title = task.filePath;
+                this.renderPomodoroBadge(row, task);
+                if (task.conflict) this.renderTaskConflict(row, task);
+                if (task.header) {
+                    const hSpan = textSpan.createSpan({ text: ` #${task.header}` });
+                    hSpan.style.color = "var(--text-muted)";
+                    hSpan.style.fontSize = "0.85em";
+                    hSpan.style.marginLeft = "8px";
+                }
+
+                const controls = row.createDiv({ cls: "zen-task-row-controls" });
+
+                if (index > 0) {
+                    const upBtn = controls.createEl("button", { cls: "zen-task-control-btn" });
+                    setIcon(upBtn, "arrow-up");
+                    upBtn.onclick = async () => {
+                        [this.plugin.settings.tasks[index], this.plugin.settings.tasks[index - 1]] = [this.plugin.settings.tasks[index - 1], this.plugin.settings.tasks[index]];
+                        await this.plugin.saveSettings();
+                        this.renderTaskCardRefresh();
+                    };
+                }
+
+                if (index < this.plugin.settings.tasks.length - 1) {
+                    const downBtn = controls.createEl("button", { cls: "zen-task-control-btn" });
+                    setIcon(downBtn, "arrow-down");
+                    downBtn.onclick = async () => {
+                        [this.plugin.settings.tasks[index], this.plugin.settings.tasks[index + 1]] = [this.plugin.settings.tasks[index + 1], this.plugin.settings.tasks[index]];
+                        await this.plugin.saveSettings();
+                        this.renderTaskCardRefresh();
+                    };
+                }
+
+                const delBtn = controls.createEl("button", { cls: "zen-task-control-btn is-danger" });
+                setIcon(delBtn, "trash");
+                delBtn.title = task.filePath ? "Remove from queue (right-click to delete the line from the note)" : "Remove from queue";
+                delBtn.onclick = () => this.plugin.deleteTask(task);
+                delBtn.oncontextmenu = (e) => {
+                    if (!task.filePath) return;
+                    e.preventDefault();
+                    const menu = new Menu();
+                    menu.addItem(item => item.setTitle("Remove from queue").setIcon("x").onClick(() => this.plugin.deleteTask(task)));
+                    menu.addItem(item => item.setTitle("Delete line from note").setIcon("trash").onClick(() => this.plugin.deleteTask(task, true)));
+                    menu.showAtMouseEvent(e);
+                };
+            });
+        }
+    }
+
+    renderPomodoroBadge(container: HTMLElement, task: TaskItem) {
+        const badge = container.createSpan({ cls: "zen-task-pomodoros", text: formatPomodoros(task) });
+        badge.toggleClass("is-empty", !task.estimate && !task.actual);
+        badge.toggleClass("is-over", !!task.estimate && (task.actual ?? 0) > task.estimate);
+        badge.title = "Actual / estimated pomodoros. Click to set the estimate.";
+        badge.onclick = (e) => {
+            e.stopPropagation();
+            const menu = new Menu();
+            for (let i = 1; i <= MAX_POMODORO_ESTIMATE; i++) {
+                menu.addItem(item => item
+                    .setTitle(`${"🍅".repeat(i)} ${i}`)
+                    .setChecked(task.estimate === i)
+                    .onClick(() => this.plugin.setTaskEstimate(task, i)));
+            }
+            menu.addSeparator();
+            menu.addItem(item => item.setTitle("Clear estimate").setIcon("x").onClick(() => this.plugin.setTaskEstimate(task, undefined)));
+            menu.showAtMouseEvent(e);
+        };
+    }
+
+    renderTaskConflict(container: HTMLElement, task: TaskItem) {
+        container.addClass("has-conflict");
+        const warning = container.createEl("button", { cls: "zen-task-control-btn zen-task-conflict" });
+        warning.title = `${task.conflict}. Click to keep the task without the note link.`;
+        setIcon(warning, "alert-triangle");
+        warning.onclick = (e) => {
+            e.stopPropagation();
+            this.plugin.unlinkTask(task);
+        };
+    }
+
+    /** Interruption counters for the running Focus phase; clicking one logs another. */
+    renderInterruptions() {
+        const el = this.interruptionsEl;
+        if (!el) return;
+        el.empty();
+        const timer = this.plugin.timer;
+        const inFocus = timer.state === TimerState.Focus && timer.phaseStartedAt !== null;
+        el.toggle(inFocus);
+        if (!inFocus) return;
+
+        const counter = (kind: Interruption['kind'], icon: string, label: string) => {
+            const btn = el.createEl("button", { cls: "zen-interruption-btn", text: `${icon} ${countInterruptions(timer.phaseInterruptions, kind)}` });
+            btn.title = `Log ${label} interruption`;
+            btn.onclick = () => timer.logInterruption(kind);
+        };
+        counter('internal', "💭", "an internal");
+        counter('external', "📞", "an external");
+
+        const noteBtn = el.createEl("button", { cls: "zen-interruption-btn" });
+        noteBtn.title = "Log an interruption with a note";
+        setIcon(noteBtn, "message-square-plus");
+        noteBtn.onclick = () => this.plugin.promptInterruption();
+
+        if (timer.phaseDistractions > 0) {
+            const distractions = el.createSpan({ cls: "zen-interruption-distractions", text: `🚧 ${timer.phaseDistractions}` });
+            distractions.title = "Blocked or warned note openings (focus lock)";
+        }
+    }
+
+    renderTaskCardRefresh() {
+        if (this.taskCardEl) {
+            const listWrapper = this.taskCardEl.querySelector(".zen-task-list-wrapper") as HTMLElement;
+            if (listWrapper) {
+                this.taskListHeight = listWrapper.style.height || `${listWrapper.offsetHeight}px`;
+            }
+            this.renderTaskCard(this.taskCardEl);
+        }
+    }
+
+    // --- Timer UI ---
+    renderTimerCard(parent: HTMLElement) {
+        const card = parent.createDiv({ cls: "zen-card zen-timer-card" });
+        card.style.padding = "10px";
+
+        const presetWrapper = card.createDiv({ cls: "zen-input-group zen-preset-group" });
+        presetWrapper.style.width = "100%";
+        presetWrapper.createDiv({ cls: "zen-label", text: "Preset" });
+        this.presetSelectEl = presetWrapper.createEl("select", { cls: "zen-select" });
+        this.presetSelectEl.onchange = () => {
+            const id = this.presetSelectEl?.value;
+            if (id) this.plugin.applyPreset(id);
+        };
+        this.renderPresetOptions();
+        
+        const metaRow = card.createDiv({ cls: "zen-timer-meta" });
+        this.statusLabelEl = metaRow.createDiv({ cls: "zen-status-label", text: "Ready" });
+        this.cycleIndicatorEl = metaRow.createDiv({ cls: "zen-cycle-indicator", text: `Cycle: 0/${this.plugin.timer.totalCycles}` });
+
+        this.timerDisplayEl = card.createDiv({ cls: "zen-timer-display" });
+        this.timerDisplayEl.setText(formatTime(this.plugin.timer.timeLeft));
+        this.timerDisplayEl.style.fontSize = "3.5rem";
+        this.timerDisplayEl.style.margin = "10px 0";
+
+        const controls = card.createDiv({ cls: "zen-controls" });
+        controls.style.display = "flex";
+        controls.style.justifyContent = "space-between";
+        controls.style.alignItems = "center";
+        controls.style.width = "100%";
+        controls.style.marginTop = "10px";
+
+        this.toggleBtnEl = controls.createEl("button", { cls: "zen-main-btn" });
+        this.toggleBtnEl.onclick = () => this.toggleTimer();
+        
+        const resetBtn = controls.createEl("button", { cls: "zen-sub-btn", text: "Reset" });
+        resetBtn.style.backgroundColor = "#c0392b"; 
+        resetBtn.style.color = "white";
+        resetBtn.onclick = () => this.plugin.timer.reset();
+
+        const phaseControls = card.createDiv({ cls: "zen-phase-controls" });
+        const skipBtn = phaseControls.createEl("button", { cls: "zen-sub-btn", text: "Skip" });
+        skipBtn.title = "Skip to next phase";
+        skipBtn.onclick = () => this.plugin.timer.skip();
+        const extendBtn = phaseControls.createEl("button", { cls: "zen-sub-btn", text: `+${this.plugin.settings.extendMinutes} min` });
+        extendBtn.title = "Extend current phase";
+        extendBtn.onclick = () => this.plugin.timer.extend(this.plugin.settings.extendMinutes);
+        this.phaseControlsEl = phaseControls;
+
+        this.updateStatusDisplay();
+    }
+
+    renderPresetOptions() {
+        const selectEl = this.presetSelectEl;
+        if (!selectEl) return;
+        selectEl.empty();
+
+        const { presets, activePresetId } = this.plugin.settings;
+        if (!activePresetId || !presets.some(p => p.id === activePresetId)) {
+            selectEl.createEl("option", { text: presets.length ? "— Custom —" : "No presets (see settings)", value: "" });
+        }
+        presets.forEach(preset => selectEl.createEl("option", { text: preset.name, value: preset.id }));
+        selectEl.value = activePresetId || "";
+    }
+
+    // --- Audio UI ---
+    renderAudioCard(parent: HTMLElement) {
+        const card = parent.createDiv({ cls: "zen-card zen-audio-card" });
+        card.style.padding = "10px";
+        const playlist = this.plugin.settings.playlistData;
+        const playerContainer = card.createDiv({ cls: "zen-player-hidden" });
+
+        const selectWrapper = card.createDiv({ cls: "zen-input-group" });
+        selectWrapper.createDiv({ cls: "zen-label", text: "Manual Select" });
+        
+        const selectEl = selectWrapper.createEl("select", { cls: "zen-select" });
+        this.trackSelectEl = selectEl;
+        
+        let firstValidSource: TrackSource | null = null;
+        let firstValidIndex = -1;
+
+        playlist.forEach((track, index) => {
+            const source = resolveTrackSource(this.app, track);
+            if (source && !firstValidSource) {
+                firstValidSource = source;
+                firstValidIndex = index;
+            }
+        });
+
+        const checkpointsContainer = card.createDiv({ cls: "zen-checkpoints-area" });
+        this.checkpointsEl = checkpointsContainer;
+
+        const initPlayer = (source: TrackSource, index: number, startAt?: number) => {
+            const track = playlist[index];
+            const checkpoints = track.checkpoints || [];
+            this.currentTrackTitle = track.title;
+            this.currentTrackIndex = index;
+            this.currentCheckpoints = checkpoints;
+            this.releasePlayer();
+
+            const player = createAudioSource(this.app, playerContainer, source, this.getAudioContext);
+            this.audioPlayer = player;
+            this.watchPlayer(player, index);
+            if (startAt !== undefined) player.seekTo(startAt);
+            this.renderCheckpoints(checkpointsContainer, checkpoints);
+
+            if (this.isMusicPlaying) {
+                player.setVolume(0);
+                player.play();
+                player.ready.then(() => {
+                    if (this.audioPlayer === player) fadeVolume(player, 0, this.currentVolume, this.plugin.settings.fadeSeconds);
+                });
+            } else {
+                player.setVolume(this.currentVolume);
+            }
+        };
+
+        if (firstValidSource) initPlayer(firstValidSource, firstValidIndex);
+
+        selectEl.onchange = () => {
+            const index = parseInt(selectEl.value);
+            const source = playlist[index] ? resolveTrackSource(this.app, playlist[index]) : null;
+            if (source) initPlayer(source, index);
+        };
+
+        this.loadTrackAt = (index: number, startAt?: number) => {
+            const source = playlist[index] ? resolveTrackSource(this.app, playlist[index]) : null;
+            if (!source) return;
+            selectEl.value = index.toString();
+            initPlayer(source, index, startAt);
+        };
+
+        const controlsRow = card.createDiv({ cls: "zen-audio-controls-row" });
+        controlsRow.style.display = "flex";
+        controlsRow.style.alignItems = "center";
+        controlsRow.style.gap = "10px";
+        controlsRow.style.marginTop = "5px";
+
+        this.musicBtnEl = controlsRow.createEl("button", { cls: "zen-music-btn" });
+        setIcon(this.musicBtnEl, "play");
+        this.musicBtnEl.onclick = () => this.toggleMusic();
+
+        const bookmarkBtn = controlsRow.createEl("button", { cls: "zen-task-control-btn" });
+        bookmarkBtn.title = "Bookmark current position";
+        setIcon(bookmarkBtn, "bookmark-plus");
+        bookmarkBtn.onclick = () => this.bookmarkCurrentPosition();
+
+        const volumeWrapper = controlsRow.createDiv({ cls: "zen-volume-wrapper" });
+        volumeWrapper.style.flexGrow = "1";
+        volumeWrapper.style.display = "flex";
+        volumeWrapper.style.alignItems = "center";
+        volumeWrapper.style.gap = "8px";
+        const volIcon = volumeWrapper.createDiv({ cls: "zen-label" });
+        setIcon(volIcon, "volume-2");
+
+        this.volumeSliderEl = this.createSlider(volumeWrapper, (val) => {
+            this.currentVolume = val;
+            if (this.audioPlayer) this.audioPlayer.setVolume(val);
+            if (this.mixer) this.mixer.setMasterVolume(val);
+        });
+
+        this.renderMixer(card);
+
+        this.loadTrackByReference = (ref: MusicReference) => {
+            if (ref.soundscapeId) {
+                this.loadSoundscape(ref.soundscapeId);
+                return;
+            }
+            const track = playlist[ref.trackIndex];
+            if(!track) return;
+            const source = resolveTrackSource(this.app, track);
+            if(source) {
+                // 前のフェーズのサウンドスケープを新しい曲の下に残さない
+                this.releaseMixer();
+                selectEl.value = ref.trackIndex.toString();
+                const checkpoint = track.checkpoints?.[ref.checkpointIndex];
+                initPlayer(source, ref.trackIndex, checkpoint ? parseTimestamp(checkpoint.time) ?? undefined : undefined);
+                const player = this.audioPlayer;
+                player?.ready.then(() => {
+                    if (this.audioPlayer !== player) return;
+                    new Notice(checkpoint ? `🎵 Loaded: ${track.title} (${checkpoint.label})` : `🎵 Loaded: ${track.title}`);
+                });
+            }
+        };
+    }
+    
+    loadTrackByReference: (ref: MusicReference) => void = () => {};
+    loadTrackAt: (index: number, startAt?: number) => void = () => {};
+
+    captureAudioState(): AudioState {
+        return {
+            // セッション終了のフェードアウト中の曲は引き継がない
+            playing: this.isMusicPlaying && !this.isFadingOut,
+            volume: this.currentVolume,
+            trackIndex: this.audioPlayer ? this.currentTrackIndex : -1,
+            position: this.audioPlayer?.currentTime ?? 0,
+            title: this.currentTrackTitle,
+            layers: this.mixer?.toSoundscapeLayers() ?? [],
+            soundscapeId: this.soundscapeSelectEl?.value ?? ""
+        };
+    }
+
+    /** Loads what another Zen view was playing, at the same position, and resumes playback. */
+    restoreAudioState(state: AudioState) {
+        this.currentVolume = state.volume;
+        if (this.volumeSliderEl) this.volumeSliderEl.value = state.volume.toString();
+        this.mixer?.setMasterVolume(state.volume);
+
+        if (state.trackIndex >= 0) {
+            this.loadTrackAt(state.trackIndex, state.position);
+        } else {
+            this.releasePlayer();
+            this.currentTrackIndex = -1;
+            this.currentCheckpoints = [];
+            if (this.checkpointsEl) this.renderCheckpoints(this.checkpointsEl, []);
+        }
+
+        const mixer = this.mixer;
+        if (mixer) {
+            mixer.clear();
+            const playlist = this.plugin.settings.playlistData;
+            state.layers.forEach(layer => {
+                const track = playlist[layer.trackIndex];
+                if (track) mixer.addLayer(track, { ...layer });
+            });
+            if (this.soundscapeSelectEl) this.soundscapeSelectEl.value = state.soundscapeId;
+            this.renderMixerLayers();
+        }
+        this.currentTrackTitle = state.title;
+        if (state.playing && !this.isMusicPlaying) this.toggleMusic();
+    }
+
+    /** Mirrors the player's real state in the view and skips tracks that fail to load. */
+    watchPlayer(player: AudioSource, trackIndex: number) {
+        player.on('status', (status: PlayerStatus) => {
+            if (player !== this.audioPlayer) return;
+            if (status === 'playing') {
+                this.failedTrackIndexes.clear();
+                this.updateMusicState(true);
+            } else if (status === 'buffering') {
+                this.updateMusicState(this.isMusicPlaying, true);
+            } else if (status === 'paused') {
+                this.updateMusicState(false);
+            } else if (status === 'ended') {
+                this.updateMusicState(false);
+                new Notice(`🎵 Finished: ${this.currentTrackTitle}`);
+            }
+        });
+        player.on('error', (reason: string) => {
+            if (player !== this.audioPlayer) return;
+            this.failedTrackIndexes.add(trackIndex);
+            new Notice(`⚠️ ${this.currentTrackTitle} is unavailable (${reason}).`);
+            this.playTrackByOffset(1);
+        });
+    }
+
+    /** Detaches the current player, fading it out first when music is playing. */
+    releasePlayer() {
+        const previous = this.audioPlayer;
+        this.audioPlayer = null;
+        if (!previous) return;
+        if (!this.isMusicPlaying) {
+            previous.destroy();
+            return;
+        }
+        fadeVolume(previous, this.currentVolume, 0, this.plugin.settings.fadeSeconds).then(() => previous.destroy());
+    }
+
+    // fadeVolume は対象ごとに実行中のフェードを止めるので、マスター音量用の対象は使い回す
+    private mixerFader = { setVolume: (v: number) => this.mixer?.setMasterVolume(v) };
+
+    /** Removes every ambient layer, fading them out first when music is playing (like `releasePlayer`). */
+    releaseMixer() {
+        const mixer = this.mixer;
+        if (!mixer || mixer.layers.length === 0) return;
+        const fadeSeconds = this.plugin.settings.fadeSeconds;
+        const layers = mixer.detachLayers();
+        layers.forEach(layer => {
+            if (!this.isMusicPlaying) {
+                layer.source.destroy();
+                return;
+            }
+            fadeVolume(layer.source, mixer.getLayerOutput(layer), 0, fadeSeconds).then(() => layer.source.destroy());
+        });
+        if (this.soundscapeSelectEl) this.soundscapeSelectEl.value = "";
+        this.renderMixerLayers();
+    }
+
+    // --- Ambient Mixer ---
+    renderMixer(card: HTMLElement) {
+        const playlist = this.plugin.settings.playlistData;
+        this.mixer = new AmbientMixer(this.app, card.createDiv({ cls: "zen-player-hidden" }), this.getAudioContext);
+        this.mixer.setMasterVolume(this.currentVolume);
+        this.mixer.onLayersChange = () => this.renderMixerLayers();
+
+        const mixerEl = card.createDiv({ cls: "zen-mixer" });
+        mixerEl.createDiv({ cls: "zen-sub-label", text: "Ambient Layers" });
+        this.mixerLayersEl = mixerEl.createDiv({ cls: "zen-mixer-layers" });
+
+        const actions = mixerEl.createDiv({ cls: "zen-input-group" });
+        const addLayerSelect = actions.createEl("select", { cls: "zen-select" });
+        this.layerSelectEl = addLayerSelect;
+        this.renderTrackOptions();
+        addLayerSelect.onchange = () => {
+            const index = parseInt(addLayerSelect.value);
+            addLayerSelect.value = "";
+            if (isNaN(index) || !this.mixer) return;
+            this.mixer.addLayer(playlist[index], { trackIndex: index, volume: 1, muted: false });
+            this.renderMixerLayers();
+        };
+
+        this.soundscapeSelectEl = actions.createEl("select", { cls: "zen-select" });
+        this.soundscapeSelectEl.onchange = () => {
+            const id = this.soundscapeSelectEl?.value;
+            if (id) this.loadSoundscape(id);
+        };
+        this.renderSoundscapeOptions();
+
+        const saveBtn = actions.createEl("button", { cls: "zen-task-control-btn" });
+        saveBtn.title = "Save current mix as soundscape";
+        setIcon(saveBtn, "save");
+        saveBtn.onclick = () => {
+            new TextPromptModal(this.app, "Save Soundscape", "Rain + Café", (name) => this.saveSoundscape(name)).open();
+        };
+
+        this.renderMixerLayers();
+    }
+
+    renderMixerLayers() {
+        const listEl = this.mixerLayersEl;
+        if (!listEl || !this.mixer) return;
+        listEl.empty();
+        const mixer = this.mixer;
+
+        mixer.layers.forEach((layer, index) => {
+            const row = listEl.createDiv({ cls: "zen-mixer-row" });
+            row.createSpan({ cls: "zen-mixer-title", text: layer.title });
+
+            const muteBtn = row.createEl("button", { cls: "zen-task-control-btn" });
+            setIcon(muteBtn, layer.muted ? "volume-x" : "volume-2");
+            muteBtn.title = layer.muted ? "Unmute" : "Mute";
+            muteBtn.onclick = () => {
+                mixer.setLayerMuted(index, !layer.muted);
+                this.renderMixerLayers();
+            };
+
+            const slider = row.createEl("input", {
+                type: "range",
+                cls: "zen-slider",
+                attr: { min: 0, max: 1, step: 0.05, value: layer.volume }
+            });
+            slider.oninput = () => mixer.setLayerVolume(index, parseFloat(slider.value));
+
+            const removeBtn = row.createEl("button", { cls: "zen-task-control-btn is-danger" });
+            setIcon(removeBtn, "x");
+            removeBtn.onclick = () => {
+                mixer.removeLayer(index);
+                this.renderMixerLayers();
+            };
+        });
+    }
+
+    /** Rebuilds the track pickers, e.g. after the playlist file was re-imported. */
+    renderTrackOptions() {
+        const playable = this.plugin.settings.playlistData
+            .map((track, index) => ({ track, index }))
+            .filter(({ track }) => resolveTrackSource(this.app, track));
+
+        const trackSelect = this.trackSelectEl;
+        if (trackSelect) {
+            trackSelect.empty();
+            playable.forEach(({ track, index }) => trackSelect.createEl("option", { text: track.title, value: index.toString() }));
+            if (this.currentTrackIndex >= 0) trackSelect.value = this.currentTrackIndex.toString();
         }
 
-        const header = container.createDiv({ cls: "zen-header" });
-        header.createEl("h2", { text: "Zen Zone" }).style.margin = "10px 0 5px 0";
-        
-        // Task Card
-        this.taskCardEl = container.createDiv({ cls: "zen-card zen-task-card" });
-        this.renderTaskCard(this.taskCardEl);
+        const layerSelect = this.layerSelectEl;
+        if (layerSelect) {
+            layerSelect.empty();
+            layerSelect.createEl("option", { text: "+ Add layer...", value: "" });
+            playable.forEach(({ track, index }) => layerSelect.createEl("option", { text: track.title, value: index.toString() }));
+        }
+    }
 
-        // Timer Card
-        const timerCardEl = container.createDiv();
-        this.renderTimerCard(timerCardEl);
+    renderSoundscapeOptions() {
+        const selectEl = this.soundscapeSelectEl;
+        if (!selectEl) return;
+        selectEl.empty();
+        selectEl.createEl("option", { text: "Soundscape...", value: "" });
+        this.plugin.settings.soundscapes.forEach(sc => selectEl.createEl("option", { text: sc.name, value: sc.id }));
+    }
 
-        // Audio Card
-        const audioCardEl = container.createDiv();
-        this.renderAudioCard(audioCardEl);
+    /** Replaces the current audio with the layers of a saved soundscape. */
+    loadSoundscape(id: string) {
+        const soundscape = this.plugin.settings.soundscapes.find(sc => sc.id === id);
+        if (!soundscape || !this.mixer) return;
+        const playlist = this.plugin.settings.playlistData;
 
-        container.createDiv({
-            text: "Cycle & Music settings in plugin options.",
-            cls: "zen-footer-note"
+        this.releasePlayer();
+        this.currentTrackIndex = -1;
+        this.currentCheckpoints = [];
+        if (this.checkpointsEl) this.renderCheckpoints(this.checkpointsEl, []);
+
+        this.releaseMixer();
+        const mixer = this.mixer;
+        // 出ていくレイヤーと入れ替わるように、新しいレイヤーはそれぞれ準備ができ次第フェードインする
+        const fadeInSeconds = this.isMusicPlaying ? this.plugin.settings.fadeSeconds : 0;
+        soundscape.layers.forEach(layer => {
+            const track = playlist[layer.trackIndex];
+            if (track) mixer.addLayer(track, { ...layer }, fadeInSeconds);
         });
+        this.currentTrackTitle = `🎛 ${soundscape.name}`;
+        if (this.soundscapeSelectEl) this.soundscapeSelectEl.value = soundscape.id;
+        this.renderMixerLayers();
+        new Notice(`🎛 Loaded: ${soundscape.name}`);
     }
 
-    // --- Task UI ---
-    renderTaskCard(container: HTMLElement) {
+    async saveSoundscape(name: string) {
+        if (!this.mixer) return;
+        const layers: SoundscapeLayer[] = [];
+        if (this.audioPlayer && this.currentTrackIndex >= 0) {
+            layers.push({ trackIndex: this.currentTrackIndex, volume: 1, muted: false });
+        }
+        layers.push(...this.mixer.toSoundscapeLayers());
+        if (layers.length === 0) {
+            new Notice("Nothing to save. Add a layer first.");
+            return;
+        }
+
+        const soundscape: Soundscape = { id: Date.now().toString(), name, layers };
+        this.plugin.settings.soundscapes.push(soundscape);
+        await this.plugin.saveSettings();
+        this.renderSoundscapeOptions();
+        if (this.soundscapeSelectEl) this.soundscapeSelectEl.value = soundscape.id;
+        new Notice(`🎛 Soundscape saved: ${name}`);
+    }
+
+    renderCheckpoints(container: HTMLElement, checkpoints: Checkpoint[]) {
         container.empty();
+        if(!checkpoints || checkpoints.length === 0) return;
+        container.createDiv({ cls: "zen-sub-label", text: "Quick Jump" });
+        const grid = container.createDiv({ cls: "zen-chip-grid" });
+        checkpoints.forEach(cp => {
+            const btn = grid.createEl("button", { cls: "zen-chip" });
+            btn.setText(cp.label);
+            btn.onclick = () => this.jumpToCheckpoint(cp);
+        });
+    }
 
-        const focusWrapper = container.createDiv({ cls: "zen-task-focus-wrapper" });
-        focusWrapper.createDiv({ text: "🔥 Current Focus", cls: "zen-sub-label" });
+    jumpToCheckpoint(cp: Checkpoint) {
+        const seconds = parseTimestamp(cp.time);
+        if (seconds === null) {
+            new Notice(`⚠️ Invalid checkpoint time "${cp.time}" for ${cp.label}.`);
+            return;
+        }
+        if (this.audioPlayer) {
+            this.audioPlayer.seekTo(seconds);
+            new Notice(`⏩ Jumped to ${cp.label}`);
+            if (!this.isMusicPlaying) this.toggleMusic(); 
+        }
+    }
 
-        const activeTask = this.plugin.settings.tasks[0];
-        const focusDisplay = focusWrapper.createDiv({ cls: "zen-task-focus-display" });
+    /** Saves the current playback position as a checkpoint on the active track. */
+    bookmarkCurrentPosition() {
+        const track = this.plugin.settings.playlistData[this.currentTrackIndex];
+        const player = this.audioPlayer;
+        if (!track || !player) {
+            new Notice("No track loaded.");
+            return;
+        }
+        if (track.generator) {
+            new Notice("Generated tracks have no timeline to bookmark.");
+            return;
+        }
 
-        if (activeTask) {
-            const cb = focusDisplay.createEl("input", { type: "checkbox", cls: "zen-task-cb-large" });
-            cb.checked = false;
-            cb.onclick = async () => {
-                cb.checked = true;
-                setTimeout(async () => {
-                    const idx = this.plugin.settings.tasks.indexOf(activeTask);
-                    if (idx > -1) {
-                        await this.plugin.manageDailyTask(activeTask.content, activeTask.header, 'complete', activeTask.filePath);
-                        this.plugin.settings.tasks.splice(idx, 1);
-                        await this.plugin.saveSettings();
-                        this.renderTaskCardRefresh();
-                        new Notice("Task Completed! 🎉");
-                    }
-                }, 500);
-            };
+        const time = formatTimestamp(player.currentTime);
+        new TextPromptModal(this.app, `Bookmark ${time}`, "The good part", async (label) => {
+            const checkpoints = track.checkpoints ?? (track.checkpoints = []);
+            const seconds = parseTimestamp(time) ?? 0;
+            const insertAt = checkpoints.findIndex(cp => (parseTimestamp(cp.time) ?? 0) > seconds);
+            checkpoints.splice(insertAt < 0 ? checkpoints.length : insertAt, 0, { label, time });
+            await this.plugin.savePlaylist();
+
+            if (this.plugin.settings.playlistData[this.currentTrackIndex] === track) {
+                this.currentCheckpoints = checkpoints;
+                if (this.checkpointsEl) this.renderCheckpoints(this.checkpointsEl, checkpoints);
+            }
+            new Notice(`🔖 Bookmarked ${label} (${time})`);
+        }, time).open();
+    }
 
-            const textSpan = focusDisplay.createSpan({ text: activeTask.content, cls: "zen-task-text-large" });
-            if (activeTask.header) {
-                const headerTag = textSpan.createSpan({ text: ` [${activeTask.header}]`, cls: "zen-task-header-tag" });
-                headerTag.setAttribute("style", "font-size: 0.6em; color: var(--text-muted); margin-left: 8px; vertical-align: middle;");
+    jumpToCheckpointIndex(index: number) {
+        const cp = this.currentCheckpoints[index];
+        if (!cp) {
+            new Notice(`No checkpoint ${index + 1} on this track.`);
+            return;
+        }
+        this.jumpToCheckpoint(cp);
+    }
+
+    /** Loads the next (delta = 1) or previous (delta = -1) playable track, skipping ones that failed. */
+    playTrackByOffset(delta: number) {
+        const playable = this.plugin.settings.playlistData
+            .map((track, index) => ({ source: resolveTrackSource(this.app, track), index }))
+            .filter(t => t.source !== null && (t.index === this.currentTrackIndex || !this.failedTrackIndexes.has(t.index)))
+            .map(t => t.index);
+        const candidates = playable.filter(index => !this.failedTrackIndexes.has(index));
+        if (candidates.length === 0) {
+            if (this.failedTrackIndexes.size > 0) {
+                this.releasePlayer();
+                this.updateMusicState(false);
+                new Notice("⚠️ No playable tracks left in the playlist.");
             }
-        } else {
-            focusDisplay.createSpan({ text: "No active tasks. Great job! 🎉", cls: "zen-task-text-placeholder" });
+            return;
         }
 
-        const inputWrapper = container.createDiv({ cls: "zen-task-input-wrapper" });
-        const defaultHeader = this.plugin.settings.dailyNoteTargetHeader || "Todo";
-        const headerInput = inputWrapper.createEl("input", { type: "text", placeholder: defaultHeader, cls: "zen-task-add-input" });
-        headerInput.style.flexGrow = "0";
-        headerInput.style.width = "80px";
-        headerInput.style.minWidth = "60px";
-        headerInput.title = "Target Header (Optional)";
+        const pos = playable.indexOf(this.currentTrackIndex);
+        let next = playable[(pos + delta + playable.length) % playable.length];
+        if (this.failedTrackIndexes.has(next)) next = candidates[0];
+        this.loadTrackByReference({ trackIndex: next, checkpointIndex: -1 });
+    }
 
-        const taskInput = inputWrapper.createEl("input", { type: "text", placeholder: "Add a new task...", cls: "zen-task-add-input" });
+    setVolume(val: number) {
+        this.currentVolume = Math.min(Math.max(Math.round(val * 100) / 100, 0), 1);
+        if (this.audioPlayer) this.audioPlayer.setVolume(this.currentVolume);
+        if (this.mixer) this.mixer.setMasterVolume(this.currentVolume);
+        if (this.volumeSliderEl) this.volumeSliderEl.value = this.currentVolume.toString();
+        new Notice(`🔊 Volume ${Math.round(this.currentVolume * 100)}%`);
+    }
 
-        const handleAddTask = async () => {
-            if (!taskInput.value.trim()) return;
-            const todayStr = moment().format(this.plugin.settings.dailyNoteFormat);
-            const folder = this.plugin.settings.dailyNoteFolder ? normalizePath(this.plugin.settings.dailyNoteFolder) : "";
-            const filePath = folder ? `${folder}/${todayStr}.md` : `${todayStr}.md`;
-            
-            const newTask: TaskItem = {
-                id: Date.now().toString(),
-                content: taskInput.value.trim(),
-                completed: false,
-                header: headerInput.value.trim() || undefined,
-                filePath: filePath
-            };
+    // --- Core Logic: Timer & Cycle ---
+    async toggleTimer() {
+        const timer = this.plugin.timer;
+        if (timer.isRunning) {
+            timer.pause();
+            return;
+        }
 
-            this.plugin.settings.tasks.push(newTask);
-            await this.plugin.manageDailyTask(newTask.content, newTask.header, 'add', filePath);
-            await this.plugin.saveSettings();
-            
-            taskInput.value = "";
-            this.renderTaskCardRefresh();
-        };
+        // 新しいセッションなら phase-start で既に曲がロードされている。再開時の音楽は 'resume' で戻す
+        const freshPhase = timer.start();
+        if (!freshPhase) return;
+        // Focus レイアウトへの切り替えでこのビューは作り直されうるので、切り替え後のビューで再生する
+        await this.plugin.zenModeChange;
+        await this.plugin.withZenView(view => {
+            if (!view.isMusicPlaying) view.toggleMusic();
+        });
+    }
 
-        taskInput.addEventListener("keypress", (e) => { if (e.key === "Enter") handleAddTask(); });
-        headerInput.addEventListener("keypress", (e) => { if (e.key === "Enter") taskInput.focus(); });
+    // 一時停止で止めた音楽だけを再開時に戻す
+    handleTimerPause() {
+        this.musicPausedByTimer = this.isMusicPlaying;
+        if (this.isMusicPlaying) this.toggleMusic();
+    }
 
-        const addBtn = inputWrapper.createEl("button", { text: "+", cls: "zen-task-add-btn" });
-        addBtn.onclick = handleAddTask;
+    handleTimerResume() {
+        if (this.musicPausedByTimer && !this.isMusicPlaying) this.toggleMusic();
+        this.musicPausedByTimer = false;
+    }
 
-        const listWrapper = container.createDiv({ cls: "zen-task-list-wrapper" });
-        listWrapper.style.resize = "vertical";
-        listWrapper.style.overflow = "auto";
-        listWrapper.style.minHeight = "100px";
-        listWrapper.style.maxHeight = "none";
-        listWrapper.style.paddingBottom = "5px";
+    /** Fades all audio out and pauses it, restoring the volume for the next play. */
+    async fadeOutMusic() {
+        if (!this.isMusicPlaying) return;
+        const fadeSeconds = this.plugin.settings.fadeSeconds;
+        const player = this.audioPlayer;
+        const mixer = this.mixer;
+        this.isFadingOut = true;
+        await Promise.all([
+            player ? fadeVolume(player, this.currentVolume, 0, fadeSeconds) : null,
+            mixer ? fadeVolume(this.mixerFader, this.currentVolume, 0, fadeSeconds) : null
+        ]);
+        this.isFadingOut = false;
+        if (this.isMusicPlaying) this.toggleMusic();
+        player?.setVolume(this.currentVolume);
+        mixer?.setMasterVolume(this.currentVolume);
+    }
+
+    playSceneMusic(phase: PhaseDefinition | null) {
+        if (phase && phase.music) {
+            this.loadTrackByReference(phase.music);
+        }
+    }
+
+    updateTimerDisplay() {
+        if (this.timerDisplayEl) this.timerDisplayEl.setText(formatTime(this.plugin.timer.timeLeft));
+    }
+
+    updateStatusDisplay() {
+        if (!this.statusLabelEl || !this.cycleIndicatorEl) return;
+        const timer = this.plugin.timer;
         
-        if (this.taskListHeight) {
-            listWrapper.style.height = this.taskListHeight;
+        this.statusLabelEl.setText(timer.isPaused ? `⏸ Paused · ${getPhaseLabel(timer.state)}` : getPhaseLabel(timer.state));
+        
+        const totalCycles = timer.totalCycles;
+        const displayCycle = timer.state === TimerState.Idle ? 0 : timer.cycleCount + 1;
+        this.cycleIndicatorEl.setText(`Cycle: ${Math.min(displayCycle, totalCycles)}/${totalCycles}`);
+
+        this.updateTimerDisplay();
+
+        if (this.toggleBtnEl) {
+            const btn = this.toggleBtnEl;
+            if (timer.isRunning) {
+                btn.setText("Pause");
+                btn.addClass("is-active");
+                setIcon(btn, "pause");
+            } else {
+                const resumeLabel = timer.state === TimerState.Focus ? "Resume Focus" : "Resume Break";
+                btn.setText(timer.isPaused ? resumeLabel : "Start Focus");
+                btn.removeClass("is-active");
+                setIcon(btn, timer.isPaused ? "play" : "timer");
+            }
+        }
+        this.phaseControlsEl?.toggleClass("is-hidden", !timer.hasProgress);
+    }
+
+    // --- Music Control ---
+    toggleMusic() {
+        if (!this.audioPlayer && !this.mixer?.layers.length) return;
+        if (this.isMusicPlaying) {
+            this.audioPlayer?.pause();
+            this.mixer?.pause();
+            this.updateMusicState(false);
         } else {
-            listWrapper.style.height = "200px";
+            this.audioPlayer?.play();
+            this.mixer?.play();
+            this.updateMusicState(true);
         }
+    }
 
-        listWrapper.addEventListener('dragover', (e) => { e.preventDefault(); if(e.dataTransfer) e.dataTransfer.dropEffect = 'move'; });
-        listWrapper.addEventListener('drop', async (e) => {
-            e.preventDefault();
-            if (e.target === listWrapper && this.dragSrcIndex > -1) {
-                const tasks = this.plugin.settings.tasks;
-                const [moved] = tasks.splice(this.dragSrcIndex, 1);
-                tasks.push(moved);
-                await this.plugin.saveSettings();
-                this.renderTaskCardRefresh();
-                this.dragSrcIndex = -1;
-            }
-        });
+    updateMusicState(playing: boolean, buffering = false) {
+        this.isMusicPlaying = playing;
+        if (!this.musicBtnEl) return;
+        setIcon(this.musicBtnEl, playing ? "pause" : "play");
+        this.musicBtnEl.toggleClass("is-playing", playing);
+        this.musicBtnEl.toggleClass("is-buffering", buffering);
+        this.musicBtnEl.title = buffering ? "Buffering..." : "";
+    }
 
-        if (this.plugin.settings.tasks.length > 0) {
-            this.plugin.settings.tasks.forEach((task, index) => {
-                const row = listWrapper.createDiv({ cls: "zen-task-row" });
-                row.draggable = true;
-                row.style.cursor = "move";
+    // --- Helpers ---
+    createSlider(container: HTMLElement, callback: (val: number) => void): HTMLInputElement {
+        const slider = container.createEl("input", { 
+            type: "range", 
+            cls: "zen-slider",
+            attr: { min: 0, max: 1, step: 0.05, value: this.currentVolume } 
+        });
+        slider.oninput = (e: any) => callback(parseFloat(e.target.value));
+        return slider;
+    }
 
-                row.addEventListener('dragstart', (e) => {
-                    this.dragSrcIndex = index;
-                    row.style.opacity = '0.4';
-                    if(e.dataTransfer) {
-                        e.dataTransfer.effectAllowed = 'move';
-                        e.dataTransfer.setData('text/plain', index.toString());
-                    }
-                });
+    /** One AudioContext for every generated sound in this view, player and mixer layers alike. */
+    getAudioContext = (): AudioContext => {
+        if (!this.audioContext) this.audioContext = new AudioContext();
+        return this.audioContext;
+    };
 
-                row.addEventListener('dragover', (e) => { e.preventDefault(); if(e.dataTransfer) e.dataTransfer.dropEffect = 'move'; return false; });
-                row.addEventListener('drop', async (e) => {
-                    e.stopPropagation();
-                    if (this.dragSrcIndex !== index && this.dragSrcIndex > -1) {
-                        const tasks = this.plugin.settings.tasks;
-                        const [movedTask] = tasks.splice(this.dragSrcIndex, 1);
-                        tasks.splice(index, 0, movedTask);
-                        await this.plugin.saveSettings();
-                        this.renderTaskCardRefresh();
-                    }
-                    return false;
-                });
-                row.addEventListener('dragend', () => { row.style.opacity = '1'; this.dragSrcIndex = -1; });
+    async onClose() { 
+        if(this.audioPlayer) this.audioPlayer.destroy();
+        if(this.mixer) this.mixer.clear(); 
+        this.audioContext?.close().catch(e => console.error("ZenZone: Failed to close audio context", e));
+        this.audioContext = null;
+    }
+}
 
-                const cb = row.createEl("input", { type: "checkbox", cls: "zen-task-cb" });
-                cb.checked = false;
-                cb.onclick = async () => {
-                    cb.checked = true;
-                    row.addClass('is-completed');
-                    setTimeout(async () => {
-                        const idx = this.plugin.settings.tasks.indexOf(task);
-                        if (idx > -1) {
-                            await this.plugin.manageDailyTask(task.content, task.header, 'complete', task.filePath);
-                            this.plugin.settings.tasks.splice(idx, 1);
-                            await this.plugin.saveSettings();
-                            this.renderTaskCardRefresh();
-                        }
-                    }, 500);
-                };
+/**
+ * Full-screen break companion: a breathing circle paced by the chosen pattern, rotating
+ * stretch / eye-rest prompts, and a skip button that has to be held down.
+ */
+class BreakGuide {
+    plugin: ZenZonePlugin;
+    el: HTMLElement | null = null;
+    private countdownEl: HTMLElement | null = null;
+    private stepTimeout: number | null = null;
+    private promptInterval: number | null = null;
+    private holdTimeout: number | null = null;
+    private tickRef: EventRef | null = null;
+
+    constructor(plugin: ZenZonePlugin) {
+        this.plugin = plugin;
+    }
 
-                const textSpan = row.createSpan({ cls: "zen-task-text" });
-                textSpan.setText(task.content);
-                if (task.header) {
-                    const hSpan = textSpan.createSpan({ text: ` #${task.header}` });
-                    hSpan.style.color = "var(--text-muted)";
-                    hSpan.style.fontSize = "0.85em";
-                    hSpan.style.marginLeft = "8px";
-                }
+    open(state: TimerState) {
+        this.close();
+        const { settings, timer } = this.plugin;
+        this.el = document.body.createDiv({ cls: "zen-break-overlay zen-break-guide" });
+        const content = this.el.createDiv({ cls: "zen-break-content" });
+        content.createEl("h1", { text: state === TimerState.LongBreak ? "🌴 Long Break" : "☕ Break" });
+        this.countdownEl = content.createDiv({ cls: "zen-break-countdown", text: formatTime(timer.timeLeft) });
+
+        const pattern = BREATHING_PATTERNS[settings.breathingPattern] ?? BREATHING_PATTERNS['box'];
+        const breath = content.createDiv({ cls: "zen-breath" });
+        const circle = breath.createDiv({ cls: "zen-breath-circle" });
+        const label = circle.createDiv({ cls: "zen-breath-label" });
+        breath.createDiv({ cls: "zen-breath-pattern", text: pattern.name });
+        this.runBreathing(pattern.steps, 0, circle, label);
+
+        const prompts = settings.breakPrompts.filter(p => p.trim());
+        if (prompts.length > 0) {
+            const promptEl = content.createDiv({ cls: "zen-break-prompt" });
+            let index = Math.floor(Math.random() * prompts.length);
+            promptEl.setText(prompts[index]);
+            this.promptInterval = window.setInterval(() => {
+                index = (index + 1) % prompts.length;
+                promptEl.setText(prompts[index]);
+            }, BREAK_PROMPT_INTERVAL_MS);
+        }
 
-                const controls = row.createDiv({ cls: "zen-task-row-controls" });
+        const actions = content.createDiv({ cls: "zen-break-actions" });
+        const hideBtn = actions.createEl("button", { text: "Hide" });
+        hideBtn.title = "Hide the guide; the break keeps running";
+        hideBtn.onclick = () => this.close();
+        this.renderSkipButton(actions);
 
-                if (index > 0) {
-                    const upBtn = controls.createEl("button", { cls: "zen-task-control-btn" });
-                    setIcon(upBtn, "arrow-up");
-                    upBtn.onclick = async () => {
-                        [this.plugin.settings.tasks[index], this.plugin.settings.tasks[index - 1]] = [this.plugin.settings.tasks[index - 1], this.plugin.settings.tasks[index]];
-                        await this.plugin.saveSettings();
-                        this.renderTaskCardRefresh();
-                    };
-                }
+        this.tickRef = timer.on('tick', () => this.countdownEl?.setText(formatTime(timer.timeLeft)));
+    }
 
-                if (index < this.plugin.settings.tasks.length - 1) {
-                    const downBtn = controls.createEl("button", { cls: "zen-task-control-btn" });
-                    setIcon(downBtn, "arrow-down");
-                    downBtn.onclick = async () => {
-                        [this.plugin.settings.tasks[index], this.plugin.settings.tasks[index + 1]] = [this.plugin.settings.tasks[index + 1], this.plugin.settings.tasks[index]];
-                        await this.plugin.saveSettings();
-                        this.renderTaskCardRefresh();
-                    };
-                }
+    close() {
+        if (this.stepTimeout) window.clearTimeout(this.stepTimeout);
+        if (this.promptInterval) window.clearInterval(this.promptInterval);
+        if (this.holdTimeout) window.clearTimeout(this.holdTimeout);
+        this.stepTimeout = this.promptInterval = this.holdTimeout = null;
+        if (this.tickRef) this.plugin.timer.offref(this.tickRef);
+        this.tickRef = null;
+        this.el?.remove();
+        this.el = null;
+        this.countdownEl = null;
+    }
 
-                const delBtn = controls.createEl("button", { cls: "zen-task-control-btn is-danger" });
-                setIcon(delBtn, "trash");
-                delBtn.onclick = async () => {
-                    await this.plugin.manageDailyTask(task.content, task.header, 'delete', task.filePath);
-                    this.plugin.settings.tasks.splice(index, 1);
-                    await this.plugin.saveSettings();
-                    this.renderTaskCardRefresh();
-                };
-            });
-        }
+    private runBreathing(steps: BreathingStep[], index: number, circle: HTMLElement, label: HTMLElement) {
+        const step = steps[index];
+        label.setText(step.label);
+        // 円の拡大・縮小はステップの秒数をかけて CSS で補間する
+        circle.style.transitionDuration = `${step.seconds}s`;
+        circle.toggleClass("is-expanded", step.expand);
+        this.stepTimeout = window.setTimeout(() => this.runBreathing(steps, (index + 1) % steps.length, circle, label), step.seconds * 1000);
     }
 
-    renderTaskCardRefresh() {
-        if (this.taskCardEl) {
-            const listWrapper = this.taskCardEl.querySelector(".zen-task-list-wrapper") as HTMLElement;
-            if (listWrapper) {
-                this.taskListHeight = listWrapper.style.height || `${listWrapper.offsetHeight}px`;
-            }
-            this.renderTaskCard(this.taskCardEl);
-        }
+    // うっかりスキップしないよう、一定時間押し続けたときだけ休憩を飛ばす
+    private renderSkipButton(parent: HTMLElement) {
+        const skipBtn = parent.createEl("button", { cls: "zen-break-skip", text: "Hold to skip break" });
+        skipBtn.style.setProperty("--zen-hold-duration", `${SKIP_BREAK_HOLD_MS}ms`);
+        const cancel = () => {
+            skipBtn.removeClass("is-holding");
+            if (this.holdTimeout) window.clearTimeout(this.holdTimeout);
+            this.holdTimeout = null;
+        };
+        skipBtn.addEventListener("pointerdown", () => {
+            skipBtn.addClass("is-holding");
+            this.holdTimeout = window.setTimeout(() => {
+                this.holdTimeout = null;
+                this.close();
+                this.plugin.timer.skip();
+            }, SKIP_BREAK_HOLD_MS);
+        });
+        skipBtn.addEventListener("pointerup", cancel);
+        skipBtn.addEventListener("pointerleave", cancel);
     }
+}
+
+// ------------------------------------------------------------
+// 5. Statistics View
+// ------------------------------------------------------------
+type StatsRange = 'day' | 'week' | 'month';
+
+interface StatsBucket {
+    label: string;
+    minutes: number;
+}
 
-    // --- Timer UI ---
-    renderTimerCard(parent: HTMLElement) {
-        const card = parent.createDiv({ cls: "zen-card zen-timer-card" });
-        card.style.padding = "10px";
-        
-        const metaRow = card.createDiv({ cls: "zen-timer-meta" });
-        this.statusLabelEl = metaRow.createDiv({ cls: "zen-status-label", text: "Ready" });
-        this.cycleIndicatorEl = metaRow.createDiv({ cls: "zen-cycle-indicator", text: "Cycle: 0/4" });
+const DAY_KEY_FORMAT = "YYYY-MM-DD";
 
-        this.timerDisplayEl = card.createDiv({ cls: "zen-timer-display" });
-        this.timerDisplayEl.setText(this.formatTime(this.timeLeft));
-        this.timerDisplayEl.style.fontSize = "3.5rem";
-        this.timerDisplayEl.style.margin = "10px 0";
+function getFocusRecords(history: SessionRecord[]): SessionRecord[] {
+    return history.filter(r => r.state === TimerState.Focus);
+}
 
-        const controls = card.createDiv({ cls: "zen-controls" });
-        controls.style.display = "flex";
-        controls.style.justifyContent = "space-between";
-        controls.style.alignItems = "center";
-        controls.style.width = "100%";
-        controls.style.marginTop = "10px";
+function buildFocusBuckets(records: SessionRecord[], range: StatsRange, count: number): StatsBucket[] {
+    const unit = range === 'day' ? 'day' : range === 'week' ? 'isoWeek' : 'month';
+    const labelFormat = range === 'day' ? "M/D" : range === 'week' ? "M/D" : "YYYY/MM";
+    const buckets: StatsBucket[] = [];
+    const keys: string[] = [];
 
-        const toggleBtn = controls.createEl("button", { cls: "zen-main-btn" });
-        toggleBtn.setText("Start Focus");
-        setIcon(toggleBtn, "timer");
-        toggleBtn.onclick = () => this.toggleTimer(toggleBtn);
-        
-        const resetBtn = controls.createEl("button", { cls: "zen-sub-btn", text: "Reset" });
-        resetBtn.style.backgroundColor = "#c0392b"; 
-        resetBtn.style.color = "white";
-        resetBtn.onclick = () => this.resetSystem(toggleBtn);
+    for (let i = count - 1; i >= 0; i--) {
+        const start = moment().subtract(i, range === 'day' ? 'days' : range === 'week' ? 'weeks' : 'months').startOf(unit);
+        keys.push(start.format(DAY_KEY_FORMAT));
+        buckets.push({ label: start.format(labelFormat), minutes: 0 });
     }
 
-    // --- Audio UI ---
-    renderAudioCard(parent: HTMLElement) {
-        const card = parent.createDiv({ cls: "zen-card zen-audio-card" });
-        card.style.padding = "10px";
-        const playlist = this.plugin.settings.playlistData;
-        const playerContainer = card.createDiv({ cls: "zen-player-hidden" });
+    records.forEach(r => {
+        const key = moment(r.startedAt).startOf(unit).format(DAY_KEY_FORMAT);
+        const idx = keys.indexOf(key);
+        if (idx > -1) buckets[idx].minutes += r.actualSeconds / 60;
+    });
+    return buckets;
+}
 
-        const selectWrapper = card.createDiv({ cls: "zen-input-group" });
-        selectWrapper.createDiv({ cls: "zen-label", text: "Manual Select" });
-        
-        const selectEl = selectWrapper.createEl("select", { cls: "zen-select" });
-        
-        let firstValidInfo: { videoId: string|null, listId: string|null } | null = null;
-        let currentTrackCheckpoints: Checkpoint[] = [];
+export function computeStreaks(records: SessionRecord[]): { current: number, longest: number } {
+    const days = new Set(
+        records.filter(r => r.outcome === 'completed').map(r => moment(r.startedAt).format(DAY_KEY_FORMAT))
+    );
+    if (days.size === 0) return { current: 0, longest: 0 };
+
+    const sorted = Array.from(days).sort();
+    let longest = 1;
+    let run = 1;
+    for (let i = 1; i < sorted.length; i++) {
+        const diff = moment(sorted[i], DAY_KEY_FORMAT).diff(moment(sorted[i - 1], DAY_KEY_FORMAT), 'days');
+        run = diff === 1 ? run + 1 : 1;
+        longest = Math.max(longest, run);
+    }
 
-        playlist.forEach((track, index) => {
-            const info = this.extractYouTubeInfo(track.url);
-            if (info.videoId || info.listId) {
-                const option = selectEl.createEl("option", { text: track.title });
-                option.value = JSON.stringify({ info: info, index: index });
-                if (!firstValidInfo) {
-                    firstValidInfo = info;
-                    currentTrackCheckpoints = track.checkpoints || [];
-                }
-            }
-        });
+    // 今日まだ集中していなくても、昨日まで続いていれば streak は継続中とみなす
+    let current = 0;
+    const cursor = moment().startOf('day');
+    if (!days.has(cursor.format(DAY_KEY_FORMAT))) cursor.subtract(1, 'day');
+    while (days.has(cursor.format(DAY_KEY_FORMAT))) {
+        current++;
+        cursor.subtract(1, 'day');
+    }
+    return { current, longest };
+}
 
-        const checkpointsContainer = card.createDiv({ cls: "zen-checkpoints-area" });
+// [weekday 0-6 (Mon-Sun)][hour 0-23] -> focus minutes
+function buildTimeOfDayHeatmap(records: SessionRecord[]): number[][] {
+    const grid = Array(7).fill(null).map(() => Array(24).fill(0));
+    records.forEach(r => {
+        const start = moment(r.startedAt);
+        grid[start.isoWeekday() - 1][start.hour()] += r.actualSeconds / 60;
+    });
+    return grid;
+}
 
-        const initPlayer = (info: {videoId: string|null, listId: string|null}, checkpoints: Checkpoint[]) => {
-            this.currentVideoId = info.videoId;
-            this.ytPlayer = new YouTubeAudio(playerContainer, info.videoId, info.listId);
-            this.ytPlayer.setVolume(this.currentVolume);
-            this.renderCheckpoints(checkpointsContainer, checkpoints);
+function formatMinutes(minutes: number): string {
+    const rounded = Math.round(minutes);
+    if (rounded < 60) return `${rounded}m`;
+    return `${Math.floor(rounded / 60)}h ${rounded % 60}m`;
+}
 
-            if (this.isMusicPlaying) {
-                setTimeout(() => {
-                    if(this.ytPlayer) {
-                        this.ytPlayer.setVolume(this.currentVolume);
-                        this.ytPlayer.play();
-                    }
-                }, 1000);
-            }
-        };
+class ZenStatsView extends ItemView {
+    plugin: ZenZonePlugin;
+    range: StatsRange = 'day';
 
-        if (firstValidInfo) initPlayer(firstValidInfo, currentTrackCheckpoints);
+    constructor(leaf: WorkspaceLeaf, plugin: ZenZonePlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
 
-        selectEl.onchange = () => {
-            try {
-                const val = JSON.parse(selectEl.value);
-                const track = playlist[val.index];
-                initPlayer(val.info, track.checkpoints || []);
-            } catch(e) { console.error(e); }
-        };
+    getViewType() { return VIEW_TYPE_STATS; }
+    getDisplayText() { return "Zen Zone Stats"; }
+    getIcon() { return "bar-chart-2"; }
 
-        const controlsRow = card.createDiv({ cls: "zen-audio-controls-row" });
-        controlsRow.style.display = "flex";
-        controlsRow.style.alignItems = "center";
-        controlsRow.style.gap = "10px";
-        controlsRow.style.marginTop = "5px";
+    async onOpen() {
+        this.render();
+    }
 
-        this.musicBtnEl = controlsRow.createEl("button", { cls: "zen-music-btn" });
-        setIcon(this.musicBtnEl, "play");
-        this.musicBtnEl.onclick = () => this.toggleMusic();
+    render() {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass("zen-view-container");
+        container.addClass("zen-stats-container");
 
-        const volumeWrapper = controlsRow.createDiv({ cls: "zen-volume-wrapper" });
-        volumeWrapper.style.flexGrow = "1";
-        volumeWrapper.style.display = "flex";
-        volumeWrapper.style.alignItems = "center";
-        volumeWrapper.style.gap = "8px";
-        const volIcon = volumeWrapper.createDiv({ cls: "zen-label" });
-        setIcon(volIcon, "volume-2");
+        const header = container.createDiv({ cls: "zen-header" });
+        header.createEl("h2", { text: "Zen Zone Stats" }).style.margin = "10px 0 5px 0";
 
-        this.createSlider(volumeWrapper, (val) => {
-            this.currentVolume = val;
-            if (this.ytPlayer) this.ytPlayer.setVolume(val);
-        });
+        const focusRecords = getFocusRecords(this.plugin.settings.sessionHistory);
 
-        this.loadTrackByReference = (ref: MusicReference) => {
-            const track = playlist[ref.trackIndex];
-            if(!track) return;
-            const info = this.extractYouTubeInfo(track.url);
-            if(info.videoId || info.listId) {
-                selectEl.value = JSON.stringify({ info: info, index: ref.trackIndex });
-                initPlayer(info, track.checkpoints || []);
-                
-                if (ref.checkpointIndex >= 0 && track.checkpoints && track.checkpoints[ref.checkpointIndex]) {
-                    const timeStr = track.checkpoints[ref.checkpointIndex].time;
-                    const sec = this.parseTimeString(timeStr);
-                    setTimeout(() => {
-                        this.ytPlayer?.seekTo(sec);
-                        new Notice(`🎵 Loaded: ${track.title} (${track.checkpoints![ref.checkpointIndex].label})`);
-                    }, 1500); 
-                } else {
-                    new Notice(`🎵 Loaded: ${track.title}`);
-                }
-            }
+        this.renderSummaryCard(container.createDiv({ cls: "zen-card" }), focusRecords);
+        this.renderFocusChartCard(container.createDiv({ cls: "zen-card" }), focusRecords);
+        this.renderHeatmapCard(container.createDiv({ cls: "zen-card" }), focusRecords);
+    }
+
+    renderSummaryCard(card: HTMLElement, records: SessionRecord[]) {
+        const todayKey = moment().format(DAY_KEY_FORMAT);
+        const weekStart = moment().startOf('isoWeek').valueOf();
+        const monthStart = moment().startOf('month').valueOf();
+        const sumMinutes = (list: SessionRecord[]) => list.reduce((acc, r) => acc + r.actualSeconds / 60, 0);
+
+        const completed = records.filter(r => r.outcome === 'completed').length;
+        const abandoned = records.filter(r => r.outcome !== 'completed').length;
+        const streaks = computeStreaks(records);
+
+        const grid = card.createDiv({ cls: "zen-stats-grid" });
+        const addTile = (label: string, value: string) => {
+            const tile = grid.createDiv({ cls: "zen-stats-tile" });
+            tile.createDiv({ cls: "zen-stats-value", text: value });
+            tile.createDiv({ cls: "zen-sub-label", text: label });
         };
+
+        addTile("Today", formatMinutes(sumMinutes(records.filter(r => moment(r.startedAt).format(DAY_KEY_FORMAT) === todayKey))));
+        addTile("This Week", formatMinutes(sumMinutes(records.filter(r => r.startedAt >= weekStart))));
+        addTile("This Month", formatMinutes(sumMinutes(records.filter(r => r.startedAt >= monthStart))));
+        addTile("Completed / Abandoned", `${completed} / ${abandoned}`);
+        addTile("Current Streak", `${streaks.current}d`);
+        addTile("Longest Streak", `${streaks.longest}d`);
     }
-    
-    loadTrackByReference: (ref: MusicReference) => void = () => {};
 
-    renderCheckpoints(container: HTMLElement, checkpoints: Checkpoint[]) {
-        container.empty();
-        if(!checkpoints || checkpoints.length === 0) return;
-        container.createDiv({ cls: "zen-sub-label", text: "Quick Jump" });
-        const grid = container.createDiv({ cls: "zen-chip-grid" });
-        checkpoints.forEach(cp => {
-            const btn = grid.createEl("button", { cls: "zen-chip" });
-            btn.setText(cp.label);
-            btn.onclick = () => {
-                const seconds = this.parseTimeString(cp.time);
-                if (this.ytPlayer) {
-                    this.ytPlayer.seekTo(seconds);
-                    new Notice(`⏩ Jumped to ${cp.label}`);
-                    if (!this.isMusicPlaying) this.toggleMusic(); 
-                }
-            };
+    renderFocusChartCard(card: HTMLElement, records: SessionRecord[]) {
+        const tabs = card.createDiv({ cls: "zen-stats-tabs" });
+        const ranges: { key: StatsRange, label: string }[] = [
+            { key: 'day', label: "Day" },
+            { key: 'week', label: "Week" },
+            { key: 'month', label: "Month" }
+        ];
+        ranges.forEach(r => {
+            const tab = tabs.createEl("button", { cls: "zen-chip", text: r.label });
+            if (r.key === this.range) tab.addClass("is-active");
+            tab.onclick = () => { this.range = r.key; this.render(); };
         });
+
+        const count = this.range === 'day' ? 14 : 12;
+        const buckets = buildFocusBuckets(records, this.range, count);
+        this.renderBarChart(card, buckets);
     }
 
-    // --- Core Logic: Timer & Cycle ---
-    toggleTimer(btn: HTMLButtonElement) {
-        if (this.currentState !== TimerState.Idle) {
-            this.stopTimer();
-            this.currentState = TimerState.Idle;
-            btn.setText("Resume Focus");
-            btn.removeClass("is-active");
-            setIcon(btn, "timer");
-            this.plugin.exitZenMode();
-            this.updateStatusDisplay();
-            this.plugin.updateStatusBar("");
-        } else {
-            if (this.cycleCount === 0 && this.timeLeft === this.plugin.settings.workDuration * 60) {
-                 this.startCycle(TimerState.Focus);
-            } else {
-                 this.runTimer(); 
+    renderBarChart(parent: HTMLElement, buckets: StatsBucket[]) {
+        const width = 320, height = 140, padBottom = 18, padTop = 14;
+        const maxMinutes = Math.max(...buckets.map(b => b.minutes), 1);
+        const slot = width / buckets.length;
+        const barWidth = slot * 0.7;
+
+        const svg = parent.createSvg("svg", {
+            cls: "zen-stats-chart",
+            attr: { viewBox: `0 0 ${width} ${height}` }
+        });
+
+        buckets.forEach((b, i) => {
+            const barHeight = (b.minutes / maxMinutes) * (height - padBottom - padTop);
+            const x = i * slot + (slot - barWidth) / 2;
+            const y = height - padBottom - barHeight;
+
+            const rect = svg.createSvg("rect", {
+                cls: "zen-stats-bar",
+                attr: { x: x, y: y, width: barWidth, height: Math.max(barHeight, 0), rx: 2 }
+            });
+            rect.createSvg("title").textContent = `${b.label}: ${formatMinutes(b.minutes)}`;
+
+            if (b.minutes > 0) {
+                svg.createSvg("text", {
+                    cls: "zen-stats-bar-value",
+                    attr: { x: x + barWidth / 2, y: y - 3, "text-anchor": "middle" }
+                }).textContent = Math.round(b.minutes).toString();
             }
-            
-            this.currentState = (this.timeLeft === this.plugin.settings.workDuration * 60) ? TimerState.Focus : this.currentState;
-            if(this.currentState === TimerState.Idle) this.currentState = TimerState.Focus;
-
-            btn.setText("Stop Focus");
-            btn.addClass("is-active");
-            setIcon(btn, "x");
-            this.plugin.enterZenMode();
-            
-            if (!this.isMusicPlaying) {
-                this.playSceneMusic(this.currentState);
-                this.toggleMusic();
+
+            // ラベルが重ならないように間引く
+            if (buckets.length <= 12 || i % 2 === (buckets.length - 1) % 2) {
+                svg.createSvg("text", {
+                    cls: "zen-stats-axis-label",
+                    attr: { x: x + barWidth / 2, y: height - 4, "text-anchor": "middle" }
+                }).textContent = b.label;
             }
-        }
+        });
     }
 
-    resetSystem(btn: HTMLButtonElement) {
-        this.stopTimer();
-        this.currentState = TimerState.Idle;
-        this.cycleCount = 0;
-        this.timeLeft = this.plugin.settings.workDuration * 60;
-        
-        if (this.timerDisplayEl) this.timerDisplayEl.setText(this.formatTime(this.timeLeft));
-        this.updateStatusDisplay();
-        
-        btn.setText("Start Focus");
-        btn.removeClass("is-active");
-        setIcon(btn, "timer");
-        this.plugin.exitZenMode();
-        this.plugin.updateStatusBar("");
-    }
+    renderHeatmapCard(card: HTMLElement, records: SessionRecord[]) {
+        card.createDiv({ cls: "zen-sub-label", text: "Time of Day" });
+        const grid = buildTimeOfDayHeatmap(records);
+        const maxMinutes = Math.max(...grid.map(row => Math.max(...row)), 1);
+        const weekdays = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
 
-    startCycle(state: TimerState) {
-        this.currentState = state;
-        
-        if (state === TimerState.Focus) {
-            this.timeLeft = this.plugin.settings.workDuration * 60;
-        } else if (state === TimerState.ShortBreak) {
-            this.timeLeft = this.plugin.settings.shortBreakDuration * 60;
-        } else if (state === TimerState.LongBreak) {
-            this.timeLeft = this.plugin.settings.longBreakDuration * 60;
-        }
-        
-        this.playSceneMusic(state);
-        this.updateStatusDisplay();
-        this.runTimer();
-    }
+        const labelWidth = 28, cell = 12, gap = 2, padTop = 14;
+        const width = labelWidth + 24 * (cell + gap);
+        const height = padTop + 7 * (cell + gap);
 
-    runTimer() {
-        if (this.timerInterval) clearInterval(this.timerInterval);
-        
-        this.timerInterval = window.setInterval(() => {
-            this.timeLeft--;
-            const timeStr = this.formatTime(this.timeLeft);
-            if (this.timerDisplayEl) this.timerDisplayEl.setText(timeStr);
-            
-            let icon = "⏳";
-            if(this.currentState === TimerState.Focus) icon = "🔥";
-            else if(this.currentState !== TimerState.Idle) icon = "☕";
-            
-            this.plugin.updateStatusBar(`${icon} ${timeStr}`);
-            
-            if (this.timeLeft <= 0) {
-                this.handlePhaseComplete();
-            }
-        }, 1000);
-    }
+        const svg = card.createSvg("svg", {
+            cls: "zen-stats-heatmap",
+            attr: { viewBox: `0 0 ${width} ${height}` }
+        });
 
-    stopTimer() {
-        if (this.timerInterval) {
-            clearInterval(this.timerInterval);
-            this.timerInterval = null;
+        for (let hour = 0; hour < 24; hour += 6) {
+            svg.createSvg("text", {
+                cls: "zen-stats-axis-label",
+                attr: { x: labelWidth + hour * (cell + gap), y: padTop - 4 }
+            }).textContent = `${hour}:00`;
         }
+
+        grid.forEach((row, day) => {
+            const y = padTop + day * (cell + gap);
+            svg.createSvg("text", {
+                cls: "zen-stats-axis-label",
+                attr: { x: 0, y: y + cell - 2 }
+            }).textContent = weekdays[day];
+
+            row.forEach((minutes, hour) => {
+                const rect = svg.createSvg("rect", {
+                    cls: "zen-stats-heat-cell",
+                    attr: {
+                        x: labelWidth + hour * (cell + gap), y: y, width: cell, height: cell, rx: 2,
+                        "fill-opacity": minutes > 0 ? 0.15 + 0.85 * (minutes / maxMinutes) : 0.05
+                    }
+                });
+                rect.createSvg("title").textContent = `${weekdays[day]} ${hour}:00 - ${formatMinutes(minutes)}`;
+            });
+        });
     }
 
-    handlePhaseComplete() {
-        this.stopTimer();
-        
-        if (this.currentState === TimerState.Focus) {
-            if (this.cycleCount >= 3) { // 0, 1, 2, 3(4th) -> Long Break
-                this.startCycle(TimerState.LongBreak);
-            } else {
-                this.startCycle(TimerState.ShortBreak);
-            }
-        } else if (this.currentState === TimerState.ShortBreak) {
-            this.cycleCount++;
-            new Notice("🔔 Break is over. Back to Focus.");
-            this.startCycle(TimerState.Focus);
-        } else if (this.currentState === TimerState.LongBreak) {
-            this.cycleCount++;
-            this.plugin.showBreakOverlay();
-            this.resetSystem(this.containerEl.querySelector(".zen-main-btn") as HTMLButtonElement);
-            new Notice("🎉 All Cycles Complete!");
-        }
+    async onClose() {}
+}
+
+// ------------------------------------------------------------
+// 6. Settings GUI
+// ------------------------------------------------------------
+class TrackEditorModal extends Modal {
+    track: PlaylistItem;
+    onSubmit: (track: PlaylistItem) => void;
+
+    constructor(app: App, track: PlaylistItem | null, onSubmit: (track: PlaylistItem) => void) {
+        super(app);
+        this.track = track ? JSON.parse(JSON.stringify(track)) : { title: "", url: "", checkpoints: [] };
+        this.onSubmit = onSubmit;
     }
 
-    playSceneMusic(state: TimerState) {
-        const cycleIdx = Math.min(this.cycleCount, 3);
-        let musicRef: MusicReference | null = null;
-        
-        if (state === TimerState.Focus) {
-            musicRef = this.plugin.settings.workMusic[cycleIdx];
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: this.track.title ? "Edit Track" : "New Track" });
+
+        new Setting(contentEl).setName("Title").addText(text => text.setValue(this.track.title).onChange(value => this.track.title = value));
+        new Setting(contentEl)
+            .setName("Type")
+            .addDropdown(dropdown => dropdown
+                .addOption("url", "YouTube / Audio File")
+                .addOption("generator", "Noise Generator")
+                .setValue(this.track.generator ? "generator" : "url")
+                .onChange(value => {
+                    if (value === "generator") {
+                        this.track.generator = {
+                            noise: 'pink',
+                            tone: 'none',
+                            carrierHz: GENERATOR_CONSTRAINTS.carrierHz.default,
+                            beatHz: GENERATOR_CONSTRAINTS.beatHz.default
+                        };
+                        this.track.url = "";
+                        this.track.checkpoints = [];
+                    } else {
+                        delete this.track.generator;
+                    }
+                    this.onOpen();
+                }));
+
+        const generator = this.track.generator;
+        if (generator) {
+            this.renderGeneratorSettings(contentEl, generator);
         } else {
-            musicRef = this.plugin.settings.breakMusic[cycleIdx];
+            new Setting(contentEl)
+                .setName("URL / File")
+                .setDesc(`YouTube URL、または Vault 内の音声ファイル (パス or [[wiki-link]]: ${AUDIO_FILE_EXTENSIONS.join("/")})`)
+                .addText(text => text.setValue(this.track.url).onChange(value => this.track.url = value));
+
+            contentEl.createEl("h3", { text: "Checkpoints" });
+            const checkpointsContainer = contentEl.createDiv();
+            this.renderCheckpoints(checkpointsContainer);
         }
 
-        if (musicRef) {
-            this.loadTrackByReference(musicRef);
-        }
+        const footer = contentEl.createDiv({ cls: "modal-button-container" });
+        new ButtonComponent(footer).setButtonText("Cancel").onClick(() => this.close());
+        new ButtonComponent(footer).setButtonText("Save").setCta().onClick(() => {
+            if(!this.track.title || (!this.track.url && !this.track.generator)) { new Notice("Required fields missing"); return; }
+            if(!resolveTrackSource(this.app, this.track)) {
+                new Notice(this.track.generator ? "Choose a noise color or a tone" : "Not a YouTube URL or audio file in this vault");
+                return;
+            }
+            const invalid = (this.track.checkpoints ?? []).find(cp => !cp.label || parseTimestamp(cp.time) === null);
+            if (invalid) { new Notice(`Invalid checkpoint: "${invalid.label || invalid.time}" (use m:ss or h:mm:ss)`); return; }
+            this.onSubmit(this.track);
+            this.close();
+        });
     }
 
-    updateStatusDisplay() {
-        if (!this.statusLabelEl || !this.cycleIndicatorEl) return;
-        
-        let label = "Ready";
-        if (this.currentState === TimerState.Focus) label = "🔥 FOCUS";
-        else if (this.currentState === TimerState.ShortBreak) label = "☕ Break (Short)";
-        else if (this.currentState === TimerState.LongBreak) label = "🌴 Break (Long)";
-        
-        this.statusLabelEl.setText(label);
-        
-        const displayCycle = this.currentState === TimerState.Idle ? 0 : this.cycleCount + 1;
-        this.cycleIndicatorEl.setText(`Cycle: ${Math.min(displayCycle, 4)}/4`);
+    renderGeneratorSettings(containerEl: HTMLElement, generator: NoiseGeneratorConfig) {
+        new Setting(containerEl)
+            .setName("Noise")
+            .addDropdown(dropdown => dropdown
+                .addOption("none", "None")
+                .addOption("white", "White")
+                .addOption("pink", "Pink")
+                .addOption("brown", "Brown")
+                .setValue(generator.noise)
+                .onChange(value => generator.noise = value as NoiseColor));
+        new Setting(containerEl)
+            .setName("Tone")
+            .setDesc("バイノーラルはヘッドホンで使用してください")
+            .addDropdown(dropdown => dropdown
+                .addOption("none", "None")
+                .addOption("binaural", "Binaural Beat")
+                .addOption("isochronic", "Isochronic Tone")
+                .setValue(generator.tone)
+                .onChange(value => generator.tone = value as ToneMode));
+
+        const { carrierHz, beatHz } = GENERATOR_CONSTRAINTS;
+        new Setting(containerEl)
+            .setName("Carrier (Hz)")
+            .setDesc(`${carrierHz.min}〜${carrierHz.max} Hz`)
+            .addSlider(slider => slider
+                .setLimits(carrierHz.min, carrierHz.max, 10)
+                .setValue(generator.carrierHz)
+                .setDynamicTooltip()
+                .onChange(value => generator.carrierHz = value));
+        new Setting(containerEl)
+            .setName("Beat (Hz)")
+            .setDesc(`${beatHz.min}〜${beatHz.max} Hz (例: 10 Hz = α波)`)
+            .addSlider(slider => slider
+                .setLimits(beatHz.min, beatHz.max, 1)
+                .setValue(generator.beatHz)
+                .setDynamicTooltip()
+                .onChange(value => generator.beatHz = value));
     }
 
-    // --- Music Control ---
-    toggleMusic() {
-        if (!this.ytPlayer) return;
-        if (this.isMusicPlaying) {
-            this.ytPlayer.pause();
-            this.isMusicPlaying = false;
-            if(this.musicBtnEl) {
-                setIcon(this.musicBtnEl, "play");
-                this.musicBtnEl.removeClass("is-playing");
-            }
-        } else {
-            this.ytPlayer.play();
-            this.isMusicPlaying = true;
-            if(this.musicBtnEl) {
-                setIcon(this.musicBtnEl, "pause");
-                this.musicBtnEl.addClass("is-playing");
-            }
+    renderCheckpoints(container: HTMLElement) {
+        container.empty();
+        if (this.track.checkpoints && this.track.checkpoints.length > 0) {
+            this.track.checkpoints.forEach((cp, index) => {
+                const row = container.createDiv({ cls: "zen-setting-checkpoint-row" });
+                row.style.display = "flex"; row.style.gap = "10px"; row.style.marginBottom = "10px";
+                
+                const labelInput = row.createEl("input", { type: "text", value: cp.label, placeholder: "Label" });
+                labelInput.onchange = (e: any) => cp.label = e.target.value;
+                const timeInput = row.createEl("input", { type: "text", value: cp.time, placeholder: "m:ss" });
+                timeInput.toggleClass("is-invalid", !!cp.time && parseTimestamp(cp.time) === null);
+                timeInput.oninput = () => timeInput.toggleClass("is-invalid", parseTimestamp(timeInput.value) === null);
+                timeInput.onchange = () => {
+                    const seconds = parseTimestamp(timeInput.value);
+                    // 正しい値は表記を揃える (例: 90 → 1:30)
+                    cp.time = seconds === null ? timeInput.value : formatTimestamp(seconds);
+                    timeInput.value = cp.time;
+                };
+
+                const upBtn = row.createEl("button");
+                setIcon(upBtn, "arrow-up");
+                upBtn.disabled = index === 0;
+                upBtn.onclick = () => this.moveCheckpoint(index, -1, container);
+                const downBtn = row.createEl("button");
+                setIcon(downBtn, "arrow-down");
+                downBtn.disabled = index === (this.track.checkpoints?.length ?? 0) - 1;
+                downBtn.onclick = () => this.moveCheckpoint(index, 1, container);
+                
+                const delBtn = row.createEl("button");
+                setIcon(delBtn, "trash");
+                delBtn.onclick = () => { this.track.checkpoints?.splice(index, 1); this.renderCheckpoints(container); };
+            });
+        }
+        new ButtonComponent(container).setButtonText("+ Add Checkpoint").onClick(() => {
+            if (!this.track.checkpoints) this.track.checkpoints = [];
+            this.track.checkpoints.push({ label: "", time: "" });
+            this.renderCheckpoints(container);
+        });
+        if ((this.track.checkpoints?.length ?? 0) > 1) {
+            new ButtonComponent(container).setButtonText("Sort by Time").onClick(() => {
+                this.track.checkpoints?.sort((a, b) => (parseTimestamp(a.time) ?? Infinity) - (parseTimestamp(b.time) ?? Infinity));
+                this.renderCheckpoints(container);
+            });
         }
     }
 
-    // --- Helpers ---
-    parseTimeString(timeStr: string): number {
-        const parts = timeStr.split(':').map(Number);
-        if (parts.length === 1) return parts[0];
-        if (parts.length === 2) return parts[0] * 60 + parts[1];
-        if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
-        return 0;
+    moveCheckpoint(index: number, delta: number, container: HTMLElement) {
+        const checkpoints = this.track.checkpoints;
+        const target = index + delta;
+        if (!checkpoints || target < 0 || target >= checkpoints.length) return;
+        [checkpoints[index], checkpoints[target]] = [checkpoints[target], checkpoints[index]];
+        this.renderCheckpoints(container);
     }
+    onClose() { this.contentEl.empty(); }
+}
 
-    extractYouTubeInfo(input: string): { videoId: string | null, listId: string | null } {
-        if (!input) return { videoId: null, listId: null };
-        
-        let videoId: string | null = null;
-        let listId: string | null = null;
+class TaskInputModal extends Modal {
+    onSubmit: (content: string, header: string | undefined) => void;
+    defaultHeader: string;
 
-        const listMatch = input.match(/[?&]list=([a-zA-Z0-9_-]+)/);
-        if (listMatch) {
-            listId = listMatch[1];
-        }
+    constructor(app: App, defaultHeader: string, onSubmit: (content: string, header: string | undefined) => void) {
+        super(app);
+        this.defaultHeader = defaultHeader;
+        this.onSubmit = onSubmit;
+    }
 
-        if (/^[a-zA-Z0-9_-]{11}$/.test(input)) {
-            videoId = input;
-        } else {
-            const regExp = /^.*(youtu\.be\/|v\/|u\/\w\/|embed\/|watch\?v=|\&v=)([^#\&\?]*).*/;
-            const match = input.match(regExp);
-            if (match && match[2].length === 11) {
-                videoId = match[2];
-            }
-        }
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "Add Task" });
 
-        return { videoId, listId };
-    }
+        let content = "";
+        let header = "";
+        const submit = () => {
+            if (!content.trim()) { new Notice("Task is empty"); return; }
+            this.onSubmit(content.trim(), header.trim() || undefined);
+            this.close();
+        };
 
-    createSlider(container: HTMLElement, callback: (val: number) => void) {
-        const slider = container.createEl("input", { 
-            type: "range", 
-            cls: "zen-slider",
-            attr: { min: 0, max: 1, step: 0.05, value: this.currentVolume } 
+        new Setting(contentEl).setName("Task").setDesc("末尾に 🍅3 と書くと見積もりポモドーロ数になる").addText(text => {
+            text.setPlaceholder("Add a new task...").onChange(val => content = val);
+            text.inputEl.addEventListener("keypress", (e) => { if (e.key === "Enter") submit(); });
+            window.setTimeout(() => text.inputEl.focus(), 0);
         });
-        slider.oninput = (e: any) => callback(parseFloat(e.target.value));
+        new Setting(contentEl).setName("Target Header (Optional)").addText(text => {
+            text.setPlaceholder(this.defaultHeader).onChange(val => header = val);
+            text.inputEl.addEventListener("keypress", (e) => { if (e.key === "Enter") submit(); });
+        });
+
+        const footer = contentEl.createDiv({ cls: "modal-button-container" });
+        new ButtonComponent(footer).setButtonText("Cancel").onClick(() => this.close());
+        new ButtonComponent(footer).setButtonText("Add").setCta().onClick(submit);
     }
+    onClose() { this.contentEl.empty(); }
+}
+
+class TextPromptModal extends Modal {
+    title: string;
+    placeholder: string;
+    initialValue: string;
+    onSubmit: (value: string) => void;
 
-    formatTime(seconds: number): string {
-        const m = Math.floor(seconds / 60);
-        const s = seconds % 60;
-        return `${m}:${s.toString().padStart(2, '0')}`;
+    constructor(app: App, title: string, placeholder: string, onSubmit: (value: string) => void, initialValue = "") {
+        super(app);
+        this.title = title;
+        this.placeholder = placeholder;
+        this.initialValue = initialValue;
+        this.onSubmit = onSubmit;
     }
 
-    async onClose() { 
-        if(this.ytPlayer) this.ytPlayer.pause(); 
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: this.title });
+
+        let value = this.initialValue;
+        const submit = () => {
+            if (!value.trim()) { new Notice("Name is required"); return; }
+            this.onSubmit(value.trim());
+            this.close();
+        };
+
+        new Setting(contentEl).setName("Name").addText(text => {
+            text.setPlaceholder(this.placeholder).setValue(value).onChange(val => value = val);
+            text.inputEl.addEventListener("keypress", (e) => { if (e.key === "Enter") submit(); });
+            window.setTimeout(() => text.inputEl.focus(), 0);
+        });
+
+        const footer = contentEl.createDiv({ cls: "modal-button-container" });
+        new ButtonComponent(footer).setButtonText("Cancel").onClick(() => this.close());
+        new ButtonComponent(footer).setButtonText("Save").setCta().onClick(submit);
     }
+    onClose() { this.contentEl.empty(); }
 }
 
-// ------------------------------------------------------------
-// 4. Settings GUI
-// ------------------------------------------------------------
-class TrackEditorModal extends Modal {
-    track: PlaylistItem;
-    onSubmit: (track: PlaylistItem) => void;
+class InterruptionModal extends Modal {
+    onSubmit: (kind: Interruption['kind'], note: string) => void;
 
-    constructor(app: App, track: PlaylistItem | null, onSubmit: (track: PlaylistItem) => void) {
+    constructor(app: App, onSubmit: (kind: Interruption['kind'], note: string) => void) {
         super(app);
-        this.track = track ? JSON.parse(JSON.stringify(track)) : { title: "", url: "", checkpoints: [] };
         this.onSubmit = onSubmit;
     }
 
     onOpen() {
         const { contentEl } = this;
         contentEl.empty();
-        contentEl.createEl("h2", { text: this.track.title ? "Edit Track" : "New Track" });
+        contentEl.createEl("h2", { text: "Log Interruption" });
 
-        new Setting(contentEl).setName("Title").addText(text => text.setValue(this.track.title).onChange(value => this.track.title = value));
-        new Setting(contentEl).setName("URL").addText(text => text.setValue(this.track.url).onChange(value => this.track.url = value));
+        let note = "";
+        const submit = (kind: Interruption['kind']) => {
+            this.onSubmit(kind, note.trim());
+            this.close();
+        };
 
-        contentEl.createEl("h3", { text: "Checkpoints" });
-        const checkpointsContainer = contentEl.createDiv();
-        this.renderCheckpoints(checkpointsContainer);
+        new Setting(contentEl).setName("Note").setDesc("What pulled you away? (optional)").addText(text => {
+            text.setPlaceholder("Slack message").onChange(val => note = val);
+            text.inputEl.addEventListener("keypress", (e) => { if (e.key === "Enter") submit('internal'); });
+            window.setTimeout(() => text.inputEl.focus(), 0);
+        });
 
         const footer = contentEl.createDiv({ cls: "modal-button-container" });
-        new ButtonComponent(footer).setButtonText("Cancel").onClick(() => this.close());
-        new ButtonComponent(footer).setButtonText("Save").setCta().onClick(() => {
-            if(!this.track.title || !this.track.url) { new Notice("Required fields missing"); return; }
-            this.onSubmit(this.track);
-            this.close();
-        });
+        new ButtonComponent(footer).setButtonText("💭 Internal").onClick(() => submit('internal'));
+        new ButtonComponent(footer).setButtonText("📞 External").setCta().onClick(() => submit('external'));
     }
+    onClose() { this.contentEl.empty(); }
+}
 
-    renderCheckpoints(container: HTMLElement) {
-        container.empty();
-        if (this.track.checkpoints && this.track.checkpoints.length > 0) {
-            this.track.checkpoints.forEach((cp, index) => {
-                const row = container.createDiv({ cls: "zen-setting-checkpoint-row" });
-                row.style.display = "flex"; row.style.gap = "10px"; row.style.marginBottom = "10px";
-                
-                const labelInput = row.createEl("input", { type: "text", value: cp.label, placeholder: "Label" });
-                labelInput.onchange = (e: any) => cp.label = e.target.value;
-                const timeInput = row.createEl("input", { type: "text", value: cp.time, placeholder: "Time" });
-                timeInput.onchange = (e: any) => cp.time = e.target.value;
-                
-                const delBtn = row.createEl("button");
-                setIcon(delBtn, "trash");
-                delBtn.onclick = () => { this.track.checkpoints?.splice(index, 1); this.renderCheckpoints(container); };
-            });
-        }
-        new ButtonComponent(container).setButtonText("+ Add Checkpoint").onClick(() => {
-            if (!this.track.checkpoints) this.track.checkpoints = [];
-            this.track.checkpoints.push({ label: "", time: "" });
-            this.renderCheckpoints(container);
-        });
+class PlaylistFileSuggestModal extends FuzzySuggestModal<TFile> {
+    onChoose: (file: TFile) => void;
+
+    constructor(app: App, onChoose: (file: TFile) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder("Import playlist from...");
     }
-    onClose() { this.contentEl.empty(); }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(f => ["md", "yaml", "yml"].includes(f.extension));
+    }
+    getItemText(file: TFile): string { return file.path; }
+    onChooseItem(file: TFile) { this.onChoose(file); }
+}
+
+class PresetSuggestModal extends FuzzySuggestModal<TimerPreset> {
+    plugin: ZenZonePlugin;
+
+    constructor(app: App, plugin: ZenZonePlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.setPlaceholder("Switch timer preset...");
+    }
+
+    getItems(): TimerPreset[] { return this.plugin.settings.presets; }
+    getItemText(preset: TimerPreset): string { return preset.name; }
+    onChooseItem(preset: TimerPreset) { this.plugin.applyPreset(preset.id); }
 }
 
 class ZenZoneSettingTab extends PluginSettingTab {
@@ -903,6 +3558,51 @@ class ZenZoneSettingTab extends PluginSettingTab {
                 await this.plugin.saveSettings();
             }));
 
+        new Setting(containerEl)
+            .setName('Restore Layout After Session')
+            .setDesc('セッション終了時に、開始前のワークスペースのレイアウト（サイドバー・開いていたノート）に戻す')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.restoreLayout).onChange(async (val) => {
+                this.plugin.settings.restoreLayout = val;
+                await this.plugin.saveSettings();
+            }));
+
+        const hasFocusLayout = this.plugin.settings.focusLayout !== null;
+        new Setting(containerEl)
+            .setName('Focus Layout')
+            .setDesc(hasFocusLayout
+                ? '作業開始時に保存したレイアウトへ切り替える。終了時は開始前のレイアウトに戻る。'
+                : '現在のレイアウト（開いているノートを含む）を保存すると、作業開始時にそのレイアウトへ切り替えられる。')
+            .addButton(btn => btn.setButtonText(hasFocusLayout ? 'Update' : 'Save Current Layout').onClick(async () => {
+                await this.plugin.saveFocusLayout();
+                this.display();
+            }))
+            .then(setting => {
+                if (!hasFocusLayout) return;
+                setting.addExtraButton(btn => btn.setIcon('trash').setTooltip('Clear').onClick(async () => {
+                    await this.plugin.clearFocusLayout();
+                    this.display();
+                }));
+                setting.addToggle(toggle => toggle.setValue(this.plugin.settings.useFocusLayout).onChange(async (val) => {
+                    this.plugin.settings.useFocusLayout = val;
+                    await this.plugin.saveSettings();
+                }));
+            });
+
+        new Setting(containerEl)
+            .setName('Extend Step (min)')
+            .setDesc('「延長」コマンドで現在のフェーズに追加する分数')
+            .addText(text => {
+                text.inputEl.type = "number";
+                text.inputEl.style.width = "60px";
+                text.setValue(this.plugin.settings.extendMinutes.toString());
+                text.onChange(async (val) => {
+                    const num = parseInt(val);
+                    if (isNaN(num) || num < 1) return;
+                    this.plugin.settings.extendMinutes = num;
+                    await this.plugin.saveSettings();
+                });
+            });
+
         new Setting(containerEl)
             .setName('Show Timer in Status Bar')
             .setDesc('ステータスバーに残り時間を表示する')
@@ -922,7 +3622,54 @@ class ZenZoneSettingTab extends PluginSettingTab {
                 this.display(); // re-render to show/hide folder settings
             }));
 
-        if (this.plugin.settings.autoLogToDaily) {
+        new Setting(containerEl)
+            .setName('Log Focus Sessions')
+            .setDesc('終了したフェーズを Daily Note の指定セクションに時間ログとして追記する')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.sessionLogEnabled).onChange(async (val) => {
+                this.plugin.settings.sessionLogEnabled = val;
+                await this.plugin.saveSettings();
+                this.display();
+            }));
+
+        if (this.plugin.settings.sessionLogEnabled) {
+            new Setting(containerEl)
+                .setName('Log Section Header')
+                .setDesc('ログを追記する見出し名')
+                .addText(text => text.setPlaceholder(DEFAULT_SETTINGS.sessionLogHeader).setValue(this.plugin.settings.sessionLogHeader).onChange(async (val) => {
+                    this.plugin.settings.sessionLogHeader = val;
+                    await this.plugin.saveSettings();
+                }));
+            new Setting(containerEl)
+                .setName('Log Line Template')
+                .setDesc('使える変数: {{start}} {{end}} {{icon}} {{phase}} {{minutes}} {{task}} {{track}} {{outcome}} {{distractions}} {{interruptions}}')
+                .addText(text => {
+                    text.inputEl.style.width = "100%";
+                    text.setPlaceholder(DEFAULT_SETTINGS.sessionLogTemplate).setValue(this.plugin.settings.sessionLogTemplate).onChange(async (val) => {
+                        this.plugin.settings.sessionLogTemplate = val;
+                        await this.plugin.saveSettings();
+                    });
+                });
+            new Setting(containerEl)
+                .setName('Daily Summary Template')
+                .setDesc('見出し直下に置く1日の集計行 (空欄で無効)。変数: {{focusMinutes}} {{breakMinutes}} {{cycles}} {{date}}')
+                .addText(text => {
+                    text.inputEl.style.width = "100%";
+                    text.setValue(this.plugin.settings.sessionSummaryTemplate).onChange(async (val) => {
+                        this.plugin.settings.sessionSummaryTemplate = val;
+                        await this.plugin.saveSettings();
+                    });
+                });
+        }
+
+        if (this.plugin.settings.autoLogToDaily || this.plugin.settings.sessionLogEnabled) {
+            const dailyConfig = this.plugin.getDailyNoteConfig();
+            if (dailyConfig.source !== 'zen-zone') {
+                // コア/Periodic Notesの設定が優先されるので、下の2項目は無効時のフォールバック
+                const sourceName = dailyConfig.source === 'periodic-notes' ? 'Periodic Notes' : 'コアプラグイン Daily Notes';
+                new Setting(containerEl)
+                    .setName('Daily Note Settings')
+                    .setDesc(`${sourceName} の設定を使用中: フォルダ「${dailyConfig.folder || '/'}」・形式「${dailyConfig.format}」・テンプレート「${dailyConfig.template || 'なし'}」。下のフォルダと日付形式は無効時のみ使われます。`);
+            }
             new Setting(containerEl)
                 .setName('Daily Note Folder')
                 .setDesc('Daily Noteの保存フォルダ (例: DailyNotes)。空欄はルート。')
@@ -937,6 +3684,8 @@ class ZenZoneSettingTab extends PluginSettingTab {
                     this.plugin.settings.dailyNoteFormat = val;
                     await this.plugin.saveSettings();
                 }));
+        }
+        if (this.plugin.settings.autoLogToDaily) {
             new Setting(containerEl)
                 .setName('Default Target Header')
                 .setDesc('タスクを追加するデフォルトの見出し名')
@@ -946,6 +3695,136 @@ class ZenZoneSettingTab extends PluginSettingTab {
                 }));
         }
 
+        // --- Task Sources ---
+        containerEl.createEl('h3', { text: '📋 Task Sources' });
+        containerEl.createDiv({ text: "Open tasks (- [ ]) matching any source are pulled into the queue and linked by a ^zen- block ID.", cls: "setting-item-description" });
+        this.renderSourceList(containerEl.createDiv(), this.plugin.settings.taskSources, setting => {
+            setting.addButton(btn => btn.setButtonText("Pull Now").setCta().onClick(() => this.plugin.pullTasks()));
+        });
+
+        // --- Focus Lock ---
+        containerEl.createEl('h3', { text: '🔒 Focus Lock' });
+        new Setting(containerEl)
+            .setName('Focus Lock')
+            .setDesc('Focus中に許可リスト外のノートを開いたとき、警告する (Warn) か元のノートに戻す (Block)。試みた回数は記録に残る。')
+            .addDropdown(dropdown => dropdown
+                .addOption('off', 'Off')
+                .addOption('warn', 'Warn')
+                .addOption('block', 'Block')
+                .setValue(this.plugin.settings.focusLock)
+                .onChange(async (val) => {
+                    this.plugin.settings.focusLock = val as ZenZoneSettings['focusLock'];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+        if (this.plugin.settings.focusLock !== 'off') {
+            new Setting(containerEl)
+                .setName('Allow Task Note')
+                .setDesc('現在のタスクがリンクしているノートを許可する')
+                .addToggle(toggle => toggle.setValue(this.plugin.settings.focusLockTaskNote).onChange(async (val) => {
+                    this.plugin.settings.focusLockTaskNote = val;
+                    await this.plugin.saveSettings();
+                }));
+            containerEl.createDiv({ text: "Notes matching any rule below are also allowed. Active Note is the note open when Focus started.", cls: "setting-item-description" });
+            this.renderSourceList(containerEl.createDiv(), this.plugin.settings.focusLockSources);
+        }
+
+        // --- Interruptions ---
+        containerEl.createEl('h3', { text: '💭 Interruptions' });
+        new Setting(containerEl)
+            .setName('Detect Interruptions')
+            .setDesc('Focus中にObsidianのウィンドウから一定時間離れたら、外的な中断として自動で記録する')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.detectInterruptions).onChange(async (val) => {
+                this.plugin.settings.detectInterruptions = val;
+                await this.plugin.saveSettings();
+                this.display();
+            }));
+        if (this.plugin.settings.detectInterruptions) {
+            new Setting(containerEl)
+                .setName('Away Threshold (sec)')
+                .setDesc('この秒数以上ウィンドウを離れたら中断とみなす')
+                .addText(text => {
+                    text.inputEl.type = "number";
+                    text.inputEl.style.width = "60px";
+                    text.setValue(this.plugin.settings.interruptionAwaySeconds.toString());
+                    text.onChange(async (val) => {
+                        const num = parseInt(val);
+                        if (!isNaN(num) && num > 0) {
+                            this.plugin.settings.interruptionAwaySeconds = num;
+                            await this.plugin.saveSettings();
+                        }
+                    });
+                });
+        }
+
+        // --- Break Guide ---
+        containerEl.createEl('h3', { text: '🌬 Break Guide' });
+        new Setting(containerEl)
+            .setName('Guided Break Overlay')
+            .setDesc('休憩の開始時に呼吸ガイドとストレッチの提案を全画面で表示する')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.breakGuide).onChange(async (val) => {
+                this.plugin.settings.breakGuide = val;
+                await this.plugin.saveSettings();
+                this.display();
+            }));
+        if (this.plugin.settings.breakGuide) {
+            new Setting(containerEl)
+                .setName('Breathing Pattern')
+                .addDropdown(dropdown => {
+                    (Object.keys(BREATHING_PATTERNS) as BreathingPattern[]).forEach(key => dropdown.addOption(key, BREATHING_PATTERNS[key].name));
+                    dropdown.setValue(this.plugin.settings.breathingPattern).onChange(async (val) => {
+                        this.plugin.settings.breathingPattern = val as BreathingPattern;
+                        await this.plugin.saveSettings();
+                    });
+                });
+            new Setting(containerEl)
+                .setName('Break Prompts')
+                .setDesc('休憩中に順番に表示するストレッチ・目の休憩の提案 (1行に1つ)')
+                .addTextArea(text => {
+                    text.inputEl.rows = 6;
+                    text.inputEl.style.width = "100%";
+                    text.setValue(this.plugin.settings.breakPrompts.join("\n")).onChange(async (val) => {
+                        this.plugin.settings.breakPrompts = val.split("\n").map(p => p.trim()).filter(p => p);
+                        await this.plugin.saveSettings();
+                    });
+                });
+        }
+
+        // --- Alerts ---
+        containerEl.createEl('h3', { text: '🔔 Alerts' });
+        new Setting(containerEl)
+            .setName('Chime Volume')
+            .setDesc('フェーズ終了のチャイムの音量 (音楽の音量とは別)')
+            .addSlider(slider => slider
+                .setLimits(0, 1, 0.05)
+                .setValue(this.plugin.settings.chimeVolume)
+                .setDynamicTooltip()
+                .onChange(async (val) => {
+                    this.plugin.settings.chimeVolume = val;
+                    await this.plugin.saveSettings();
+                }));
+        (Object.keys(ALERT_LABELS) as AlertTransition[]).forEach(transition => this.renderAlertSetting(containerEl, transition));
+        new Setting(containerEl)
+            .setName('Repeat Reminder (min)')
+            .setDesc('休憩が終わったあと、通知をクリックするか一時停止するまで、この間隔でチャイムと通知を繰り返す (0 で無効)')
+            .addText(text => {
+                text.inputEl.type = "number";
+                text.inputEl.style.width = "60px";
+                text.setValue(this.plugin.settings.reminderMinutes.toString());
+                text.onChange(async (val) => {
+                    const num = parseInt(val);
+                    if (!isNaN(num) && num >= 0) {
+                        this.plugin.settings.reminderMinutes = num;
+                        await this.plugin.saveSettings();
+                    }
+                });
+            });
+
+        // --- Presets ---
+        containerEl.createEl('h3', { text: '🗂 Presets' });
+        containerEl.createDiv({ text: "A preset bundles durations, cycle structure, music schedule and Zen mode preferences.", cls: "setting-item-description" });
+        this.renderPresetList(containerEl);
+
         // --- Timer Configuration ---
         containerEl.createEl('h3', { text: '⏱ Timer Configuration' });
         this.createTimeSetting(containerEl, "作業時間 (Focus)", `基本: ${TIME_CONSTRAINTS.work.default}分 | 範囲: ${TIME_CONSTRAINTS.work.min} - ${TIME_CONSTRAINTS.work.max}分`, TIME_CONSTRAINTS.work, 'work');
@@ -960,19 +3839,68 @@ class ZenZoneSettingTab extends PluginSettingTab {
             this.saveTimeSettings();
         });
 
-        // --- Cycle Music Schedule ---
-        containerEl.createEl('h3', { text: '🎵 Cycle Music Schedule' });
-        containerEl.createDiv({ text: "Configure different music for each of the 4 cycles.", cls: "setting-item-description" });
+        // --- Cycle Structure ---
+        containerEl.createEl('h3', { text: '🔁 Cycle Structure' });
+        new Setting(containerEl)
+            .setName('Cycle Mode')
+            .setDesc('標準: N サイクル後に長い休憩 / カスタム: フェーズを自由に並べる (例: 50/10, 50/10, 90/20)')
+            .addDropdown(dropdown => dropdown
+                .addOption('standard', 'Standard')
+                .addOption('custom', 'Custom Phases')
+                .setValue(this.plugin.settings.cycleMode)
+                .onChange(async (val) => {
+                    this.plugin.settings.cycleMode = val as ZenZoneSettings['cycleMode'];
+                    if (val === 'custom' && this.plugin.settings.customPhases.length === 0) {
+                        this.plugin.settings.customPhases = buildPhaseSequence({ ...this.plugin.settings, cycleMode: 'standard' })
+                            .map(phase => ({ ...phase, music: { ...phase.music } }));
+                    }
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
 
-        for (let i = 0; i < 4; i++) {
-            const isLongBreak = (i === 3);
-            containerEl.createEl('h4', { text: `Cycle ${i + 1}`, cls: "zen-cycle-header" });
-            this.addMusicSetting(containerEl, "Focus Music", "", this.plugin.settings.workMusic[i]);
-            this.addMusicSetting(containerEl, `Break Music (${isLongBreak ? "Long" : "Short"})`, "", this.plugin.settings.breakMusic[i]);
+        if (this.plugin.settings.cycleMode === 'custom') {
+            this.renderCustomPhases(containerEl);
+        } else {
+            new Setting(containerEl)
+                .setName('Cycles before Long Break')
+                .setDesc(`長い休憩までのサイクル数 | 範囲: ${TIME_CONSTRAINTS.cycles.min} - ${TIME_CONSTRAINTS.cycles.max}`)
+                .addSlider(slider => slider
+                    .setLimits(TIME_CONSTRAINTS.cycles.min, TIME_CONSTRAINTS.cycles.max, 1)
+                    .setValue(this.plugin.settings.cyclesBeforeLongBreak)
+                    .setDynamicTooltip()
+                    .onChange(async (val) => {
+                        this.plugin.settings.cyclesBeforeLongBreak = val;
+                        fillMusicSchedule(this.plugin.settings);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+
+            // --- Cycle Music Schedule ---
+            const cycles = this.plugin.settings.cyclesBeforeLongBreak;
+            containerEl.createEl('h3', { text: '🎵 Cycle Music Schedule' });
+            containerEl.createDiv({ text: `Configure different music for each of the ${cycles} cycles.`, cls: "setting-item-description" });
+
+            for (let i = 0; i < cycles; i++) {
+                const isLongBreak = (i === cycles - 1);
+                containerEl.createEl('h4', { text: `Cycle ${i + 1}`, cls: "zen-cycle-header" });
+                this.addMusicSetting(containerEl, "Focus Music", "", this.plugin.settings.workMusic[i]);
+                this.addMusicSetting(containerEl, `Break Music (${isLongBreak ? "Long" : "Short"})`, "", this.plugin.settings.breakMusic[i]);
+            }
         }
 
         // --- Playlist Manager ---
         containerEl.createEl('h3', { text: 'Playlist Manager' });
+        new Setting(containerEl)
+            .setName('Fade Duration (sec)')
+            .setDesc('フェーズ切り替え時のクロスフェードと、セッション終了時のフェードアウトの長さ (0 で無効)')
+            .addSlider(slider => slider
+                .setLimits(FADE_CONSTRAINTS.min, FADE_CONSTRAINTS.max, 0.5)
+                .setValue(this.plugin.settings.fadeSeconds)
+                .setDynamicTooltip()
+                .onChange(async (val) => {
+                    this.plugin.settings.fadeSeconds = val;
+                    await this.plugin.saveSettings();
+                }));
         const listContainer = containerEl.createDiv();
         this.renderTrackList(listContainer);
         
@@ -981,10 +3909,259 @@ class ZenZoneSettingTab extends PluginSettingTab {
         new ButtonComponent(addContainer).setButtonText("Add New Track").setCta().onClick(() => {
             new TrackEditorModal(this.app, null, async (newTrack) => {
                 this.plugin.settings.playlistData.push(newTrack);
-                await this.plugin.saveSettings();
+                await this.plugin.savePlaylist();
+                this.display();
+            }).open();
+        });
+        new ButtonComponent(addContainer).setButtonText("Import...").onClick(() => {
+            new PlaylistFileSuggestModal(this.app, async (file) => {
+                await this.plugin.importPlaylist(file);
                 this.display();
             }).open();
         });
+        new ButtonComponent(addContainer).setButtonText("Export").onClick(() => this.plugin.exportPlaylist());
+
+        new Setting(containerEl)
+            .setName('Playlist File')
+            .setDesc('エクスポート先 / 同期するファイル (Markdown の frontmatter または .yaml)')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.playlistFilePath)
+                .setValue(this.plugin.settings.playlistFilePath)
+                .onChange(async (val) => {
+                    this.plugin.settings.playlistFilePath = val.trim();
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Sync with Playlist File')
+            .setDesc('ファイルの変更をプレイリストに反映し、ここでの編集をファイルに書き戻す (git での共有向け)')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.syncPlaylistFile).onChange(async (val) => {
+                this.plugin.settings.syncPlaylistFile = val;
+                await this.plugin.saveSettings();
+                if (val) {
+                    await this.plugin.startPlaylistSync();
+                    this.display();
+                }
+            }));
+
+        // --- Soundscapes ---
+        containerEl.createEl('h3', { text: '🎛 Soundscapes' });
+        containerEl.createDiv({ text: "Mixes saved from the Ambient Layers panel. Assign them to phases in the music schedule.", cls: "setting-item-description" });
+        this.renderSoundscapeList(containerEl.createDiv());
+    }
+
+    renderAlertSetting(containerEl: HTMLElement, transition: AlertTransition) {
+        const alert = this.plugin.settings.alerts[transition];
+        const setting = new Setting(containerEl)
+            .setName(ALERT_LABELS[transition].name)
+            .setDesc('チャイムの種類。右のトグルでOSの通知も出す')
+            .addDropdown(dropdown => {
+                dropdown.addOption('none', 'No chime');
+                (Object.keys(CHIMES) as (keyof typeof CHIMES)[]).forEach(id => dropdown.addOption(id, CHIMES[id].name));
+                dropdown.addOption('vault', 'Vault file…');
+                dropdown.setValue(alert.chime).onChange(async (val) => {
+                    alert.chime = val as ChimeId;
+                    await this.plugin.saveSettings();
+                    this.display();
+                });
+            });
+        if (alert.chime === 'vault') {
+            setting.addText(text => text
+                .setPlaceholder("Sounds/chime.mp3")
+                .setValue(alert.chimePath)
+                .onChange(async (val) => {
+                    alert.chimePath = val.trim();
+                    await this.plugin.saveSettings();
+                }));
+        }
+        setting
+            .addExtraButton(btn => btn.setIcon("play").setTooltip("Test").onClick(() => this.plugin.sendAlert(transition)))
+            .addToggle(toggle => {
+                toggle.toggleEl.title = "System notification";
+                toggle.setValue(alert.notify).onChange(async (val) => {
+                    alert.notify = val;
+                    await this.plugin.saveSettings();
+                    if (val) await this.requestNotificationPermission();
+                });
+            });
+    }
+
+    async requestNotificationPermission() {
+        if (typeof Notification === "undefined") {
+            new Notice("System notifications are not available on this device.");
+            return;
+        }
+        if (Notification.permission === "default") await Notification.requestPermission();
+        if (Notification.permission === "denied") new Notice("⚠️ System notifications are blocked for Obsidian.");
+    }
+
+    /** Editable list of folder/tag/text rules, shared by task sources and the focus lock allow-list. */
+    renderSourceList(container: HTMLElement, sources: TaskSource[], addActions?: (setting: Setting) => void) {
+        const placeholders: Record<TaskSource['type'], string> = {
+            'folder': "Projects",
+            'tag': "#work",
+            'query': "review",
+            'active-note': ""
+        };
+
+        sources.forEach((source, index) => {
+            const setting = new Setting(container)
+                .addDropdown(dropdown => {
+                    (['folder', 'tag', 'query', 'active-note'] as TaskSource['type'][]).forEach(type => dropdown.addOption(type, getTaskSourceLabel(type)));
+                    dropdown.setValue(source.type).onChange(async (val) => {
+                        source.type = val as TaskSource['type'];
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+                });
+            if (source.type !== 'active-note') {
+                setting.addText(text => text
+                    .setPlaceholder(placeholders[source.type])
+                    .setValue(source.value)
+                    .onChange(async (val) => {
+                        source.value = val;
+                        await this.plugin.saveSettings();
+                    }));
+            }
+            setting.addExtraButton(btn => btn.setIcon("trash").setTooltip("Remove source").onClick(async () => {
+                sources.splice(index, 1);
+                await this.plugin.saveSettings();
+                this.display();
+            }));
+        });
+
+        new Setting(container)
+            .addButton(btn => btn.setButtonText("Add Source").onClick(async () => {
+                sources.push({ type: 'folder', value: "" });
+                await this.plugin.saveSettings();
+                this.display();
+            }))
+            .then(setting => addActions?.(setting));
+    }
+
+    renderSoundscapeList(container: HTMLElement) {
+        const { soundscapes, playlistData } = this.plugin.settings;
+        soundscapes.forEach((sc, index) => {
+            const layerNames = sc.layers.map(l => playlistData[l.trackIndex]?.title ?? "?").join(" + ");
+            new Setting(container)
+                .setName(sc.name)
+                .setDesc(layerNames)
+                .addButton(btn => btn.setIcon("trash").setClass("zen-danger-btn").onClick(async () => {
+                    soundscapes.splice(index, 1);
+                    await this.plugin.saveSettings();
+                    this.plugin.getZenView()?.renderSoundscapeOptions();
+                    this.display();
+                    new Notice("Soundscape deleted.");
+                }));
+        });
+    }
+
+    renderPresetList(container: HTMLElement) {
+        const settings = this.plugin.settings;
+        settings.presets.forEach((preset, index) => {
+            const isActive = preset.id === settings.activePresetId;
+            new Setting(container)
+                .setName(`${isActive ? "✅ " : ""}${preset.name}`)
+                .setDesc(`${preset.workDuration}/${preset.shortBreakDuration}/${preset.longBreakDuration}分 · ${preset.cycleMode === 'custom' ? `${preset.customPhases.length} phases` : `${preset.cyclesBeforeLongBreak} cycles`}`)
+                .addText(text => text.setValue(preset.name).onChange(async (val) => {
+                    preset.name = val.trim() || preset.name;
+                    await this.plugin.saveSettings();
+                    this.plugin.getZenView()?.renderPresetOptions();
+                }))
+                .addButton(btn => btn.setButtonText("Apply").onClick(async () => {
+                    await this.plugin.applyPreset(preset.id);
+                    this.resetTempSettings();
+                    this.display();
+                }))
+                .addButton(btn => btn.setIcon("save").setTooltip("現在の設定で上書き").onClick(async () => {
+                    settings.presets[index] = { ...createPreset(settings, preset.name), id: preset.id };
+                    await this.plugin.saveSettings();
+                    new Notice(`Preset "${preset.name}" updated.`);
+                }))
+                .addButton(btn => btn.setIcon("trash").setClass("zen-danger-btn").onClick(async () => {
+                    settings.presets.splice(index, 1);
+                    if (isActive) settings.activePresetId = null;
+                    await this.plugin.saveSettings();
+                    this.plugin.getZenView()?.renderPresetOptions();
+                    this.display();
+                }));
+        });
+
+        let newName = "";
+        new Setting(container)
+            .setName("Save current settings as preset")
+            .addText(text => text.setPlaceholder("Deep Work").onChange(val => newName = val))
+            .addButton(btn => btn.setButtonText("Save").setCta().onClick(async () => {
+                if (!newName.trim()) { new Notice("Preset name is required"); return; }
+                const preset = createPreset(settings, newName.trim());
+                settings.presets.push(preset);
+                settings.activePresetId = preset.id;
+                await this.plugin.saveSettings();
+                this.plugin.getZenView()?.renderPresetOptions();
+                this.display();
+            }));
+    }
+
+    renderCustomPhases(container: HTMLElement) {
+        const phases = this.plugin.settings.customPhases;
+        const limits = TIME_CONSTRAINTS.customPhase;
+        container.createDiv({ text: "Phases run top to bottom. The session ends after the last phase.", cls: "setting-item-description" });
+
+        phases.forEach((phase, index) => {
+            container.createEl('h4', { text: `Phase ${index + 1}`, cls: "zen-cycle-header" });
+            new Setting(container)
+                .setName("Type & Duration")
+                .setDesc(`分 | 範囲: ${limits.min} - ${limits.max}分`)
+                .addDropdown(dropdown => dropdown
+                    .addOption(TimerState.Focus.toString(), "🔥 Focus")
+                    .addOption(TimerState.ShortBreak.toString(), "☕ Short Break")
+                    .addOption(TimerState.LongBreak.toString(), "🌴 Long Break")
+                    .setValue(phase.type.toString())
+                    .onChange(async (val) => {
+                        phase.type = parseInt(val) as TimerState;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => {
+                    text.inputEl.type = "number";
+                    text.inputEl.style.width = "60px";
+                    text.setValue(phase.duration.toString());
+                    text.onChange(async (val) => {
+                        const num = parseInt(val);
+                        if (isNaN(num)) return;
+                        phase.duration = Math.min(Math.max(num, limits.min), limits.max);
+                        await this.plugin.saveSettings();
+                    });
+                })
+                .addExtraButton(btn => btn.setIcon("arrow-up").setTooltip("Move up").setDisabled(index === 0).onClick(async () => {
+                    [phases[index - 1], phases[index]] = [phases[index], phases[index - 1]];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+                .addExtraButton(btn => btn.setIcon("arrow-down").setTooltip("Move down").setDisabled(index === phases.length - 1).onClick(async () => {
+                    [phases[index + 1], phases[index]] = [phases[index], phases[index + 1]];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+                .addExtraButton(btn => btn.setIcon("trash").setTooltip("Delete").onClick(async () => {
+                    phases.splice(index, 1);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+            this.addMusicSetting(container, "Music", "", phase.music);
+        });
+
+        const addContainer = container.createDiv({ cls: "zen-setting-add-container" });
+        addContainer.style.marginTop = "10px";
+        new ButtonComponent(addContainer).setButtonText("Add Phase").onClick(async () => {
+            const last = phases[phases.length - 1];
+            const isFocus = !last || last.type !== TimerState.Focus;
+            phases.push({
+                type: isFocus ? TimerState.Focus : TimerState.ShortBreak,
+                duration: isFocus ? limits.default : TIME_CONSTRAINTS.shortBreak.default,
+                music: { ...(isFocus ? DEFAULT_MUSIC_REF_WORK : DEFAULT_MUSIC_REF_BREAK) }
+            });
+            await this.plugin.saveSettings();
+            this.display();
+        });
     }
 
     createTimeSetting(container: HTMLElement, name: string, desc: string, limits: {min: number, max: number}, key: 'work'|'short'|'long') {
@@ -1023,6 +4200,7 @@ class ZenZoneSettingTab extends PluginSettingTab {
         this.plugin.settings.longBreakDuration = clamp(this.tempSettings.long, TIME_CONSTRAINTS.longBreak.min, TIME_CONSTRAINTS.longBreak.max);
         
         await this.plugin.saveSettings();
+        this.plugin.timer.syncIdleDuration();
         this.resetTempSettings();
         this.display();
         new Notice("Time settings saved!");
@@ -1033,11 +4211,19 @@ class ZenZoneSettingTab extends PluginSettingTab {
 
         setting.addDropdown(dropdown => {
             this.plugin.settings.playlistData.forEach((track, idx) => {
-                dropdown.addOption(idx.toString(), track.title);
+                dropdown.addOption(idx.toString(), track.generator ? `〰 ${track.title}` : track.title);
+            });
+            this.plugin.settings.soundscapes.forEach(sc => {
+                dropdown.addOption(`soundscape:${sc.id}`, `🎛 ${sc.name}`);
             });
-            dropdown.setValue(targetRef.trackIndex.toString());
+            dropdown.setValue(targetRef.soundscapeId ? `soundscape:${targetRef.soundscapeId}` : targetRef.trackIndex.toString());
             dropdown.onChange(async (val) => {
-                targetRef.trackIndex = parseInt(val);
+                if (val.startsWith("soundscape:")) {
+                    targetRef.soundscapeId = val.slice("soundscape:".length);
+                } else {
+                    delete targetRef.soundscapeId;
+                    targetRef.trackIndex = parseInt(val);
+                }
                 targetRef.checkpointIndex = -1; 
                 await this.plugin.saveSettings();
                 this.display(); 
@@ -1046,7 +4232,7 @@ class ZenZoneSettingTab extends PluginSettingTab {
 
         setting.addDropdown(dropdown => {
             dropdown.addOption("-1", "Start");
-            const selectedTrack = this.plugin.settings.playlistData[targetRef.trackIndex];
+            const selectedTrack = targetRef.soundscapeId ? null : this.plugin.settings.playlistData[targetRef.trackIndex];
             if (selectedTrack && selectedTrack.checkpoints) {
                 selectedTrack.checkpoints.forEach((cp, idx) => {
                     dropdown.addOption(idx.toString(), `${cp.label} (${cp.time})`);
@@ -1065,17 +4251,26 @@ class ZenZoneSettingTab extends PluginSettingTab {
         this.plugin.settings.playlistData.forEach((track, index) => {
             new Setting(container)
                 .setName(track.title)
-                .setDesc(track.url)
+                .setDesc(track.generator ? describeGenerator(track.generator) : track.url)
                 .addButton(btn => btn.setIcon("pencil").onClick(() => {
                     new TrackEditorModal(this.app, track, async (updatedTrack) => {
                         this.plugin.settings.playlistData[index] = updatedTrack;
-                        await this.plugin.saveSettings();
+                        await this.plugin.savePlaylist();
                         this.display();
                     }).open();
                 }))
+                .then(setting => {
+                    const info = extractYouTubeInfo(track.url);
+                    if (!info.listId || info.videoId) return;
+                    setting.addButton(btn => btn.setIcon("list-plus").setTooltip("Expand playlist into tracks").onClick(async () => {
+                        await this.plugin.expandYouTubePlaylist(index);
+                        this.display();
+                    }));
+                })
                 .addButton(btn => btn.setIcon("trash").setClass("zen-danger-btn").onClick(async () => {
                     this.plugin.settings.playlistData.splice(index, 1);
-                    await this.plugin.saveSettings();
+                    remapTrackIndexes(this.plugin.settings, i => i === index ? null : i > index ? i - 1 : i);
+                    await this.plugin.savePlaylist();
                     this.display();
                     new Notice("Track deleted.");
                 }));
@@ -1084,12 +4279,24 @@ class ZenZoneSettingTab extends PluginSettingTab {
 }
 
 // ------------------------------------------------------------
-// 5. Plugin Main Class
+// 7. Plugin Main Class
 // ------------------------------------------------------------
 export default class ZenZonePlugin extends Plugin {
     settings: ZenZoneSettings;
+    timer: ZenTimer;
     overlayEl: HTMLElement | null = null;
     statusBarItem: HTMLElement | null = null;
+    breakGuide: BreakGuide;
+    chimes = new ChimePlayer();
+    private reminderNotice: Notice | null = null;
+    private reminderInterval: number | null = null;
+
+    // Focus Lock
+    focusStartPath: string | null = null;
+    lastAllowedFile: TFile | null = null;
+    private isRedirecting = false;
+    private blurredAt: number | null = null;
+    private blurredPhaseStartedAt: number | null = null; // 離れた時点の Focus フェーズ
 
     async onload() {
         await this.loadSettings();
@@ -1097,9 +4304,171 @@ export default class ZenZonePlugin extends Plugin {
         this.statusBarItem = this.addStatusBarItem();
         this.updateStatusBar("");
 
+        this.timer = new ZenTimer(this);
+        this.app.workspace.onLayoutReady(() => {
+            this.timer.restore(this.settings.timerSession);
+            if (this.settings.syncPlaylistFile) this.startPlaylistSync();
+            this.reconcileAllTasks();
+        });
+        this.registerEvent(this.app.vault.on('modify', (file) => {
+            if (file instanceof TFile && file.extension === "md") this.reconcileTaskFile(file);
+        }));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.handleLinkedFileRenamed(file, oldPath)));
+        this.registerEvent(this.app.vault.on('delete', (file) => this.handleLinkedFileDeleted(file.path)));
+        this.registerEvent(this.app.vault.on('modify', (file) => {
+            if (file instanceof TFile && this.settings.syncPlaylistFile && file.path === this.getPlaylistFilePath()) {
+                this.importPlaylist(file, true);
+            }
+        }));
+        this.registerEvent(this.app.workspace.on('file-open', (file) => this.checkFocusLock(file)));
+        this.breakGuide = new BreakGuide(this);
+        this.registerEvent(this.timer.on('phase-start', (phase: PhaseDefinition) => {
+            if (this.settings.breakGuide && phase.type !== TimerState.Focus) this.breakGuide.open(phase.type);
+            else this.breakGuide.close();
+        }));
+        this.registerEvent(this.timer.on('state-change', () => {
+            if (this.timer.state === TimerState.Focus || this.timer.state === TimerState.Idle) this.breakGuide.close();
+            // 一時停止やリセットは、休憩終了に気付いた合図とみなす
+            if (!this.timer.isRunning || this.timer.state !== TimerState.Focus) this.acknowledgeAlert();
+        }));
+        // 次の Focus を再開した、または Obsidian で手を動かし始めたら、もう知らせ続けない
+        this.registerEvent(this.timer.on('resume', () => this.acknowledgeAlert()));
+        this.registerDomEvent(document, 'keydown', () => this.acknowledgeAlertOnActivity(), { capture: true });
+        this.registerDomEvent(document, 'pointerdown', () => this.acknowledgeAlertOnActivity(), { capture: true });
+        this.registerEvent(this.timer.on('phase-start', () => {
+            const file = this.app.workspace.getActiveFile();
+            this.focusStartPath = file?.path ?? null;
+            this.lastAllowedFile = file;
+        }));
+        this.registerDomEvent(document, 'visibilitychange', () => {
+            if (document.visibilityState === 'visible') this.timer.resync();
+        });
+        this.registerDomEvent(window, 'focus', () => {
+            this.timer.resync();
+            this.handleWindowFocus();
+        });
+        this.registerDomEvent(window, 'blur', () => {
+            if (this.settings.detectInterruptions && this.timer.isRunning && this.timer.state === TimerState.Focus) {
+                this.blurredAt = this.timer.clock.now();
+                this.blurredPhaseStartedAt = this.timer.phaseStartedAt;
+            }
+        });
+
         this.addSettingTab(new ZenZoneSettingTab(this.app, this));
         this.registerView(VIEW_TYPE_ZEN, (leaf) => new ZenView(leaf, this));
+        this.registerView(VIEW_TYPE_STATS, (leaf) => new ZenStatsView(leaf, this));
         this.addRibbonIcon('zap', 'Open Zen Zone', () => this.activateView());
+        this.addRibbonIcon('bar-chart-2', 'Open Zen Zone Stats', () => this.activateStatsView());
+
+        this.registerCommands();
+    }
+
+    onunload() {
+        this.breakGuide.close();
+        this.acknowledgeAlert();
+        this.chimes.destroy();
+        this.timer.destroy();
+    }
+
+    registerCommands() {
+        // --- View ---
+        this.addCommand({ id: 'open-view', name: 'Open Zen Zone', callback: () => this.activateView() });
+        this.addCommand({ id: 'open-stats', name: 'Open statistics', callback: () => this.activateStatsView() });
+
+        // --- Timer ---
+        this.addCommand({ id: 'toggle-timer', name: 'Start / pause focus', callback: () => this.toggleTimer() });
+        this.addCommand({ id: 'reset-timer', name: 'Reset timer', callback: () => this.timer.reset() });
+        this.addCommand({ id: 'skip-phase', name: 'Skip to next phase', callback: () => this.timer.skip() });
+        this.addCommand({
+            id: 'extend-phase',
+            name: 'Extend current phase',
+            callback: () => this.timer.extend(this.settings.extendMinutes)
+        });
+        this.addCommand({
+            id: 'switch-preset',
+            name: 'Switch timer preset',
+            callback: () => {
+                if (this.settings.presets.length === 0) {
+                    new Notice("No presets yet. Save one in Zen Zone settings.");
+                    return;
+                }
+                new PresetSuggestModal(this.app, this).open();
+            }
+        });
+
+        // --- Audio ---
+        this.addCommand({ id: 'toggle-music', name: 'Play / pause music', callback: () => this.withZenView(view => view.toggleMusic()) });
+        this.addCommand({ id: 'next-track', name: 'Next track', callback: () => this.withZenView(view => view.playTrackByOffset(1)) });
+        this.addCommand({ id: 'previous-track', name: 'Previous track', callback: () => this.withZenView(view => view.playTrackByOffset(-1)) });
+        this.addCommand({ id: 'volume-up', name: 'Volume up', callback: () => this.withZenView(view => view.setVolume(view.currentVolume + VOLUME_STEP)) });
+        this.addCommand({ id: 'volume-down', name: 'Volume down', callback: () => this.withZenView(view => view.setVolume(view.currentVolume - VOLUME_STEP)) });
+        for (let i = 0; i < 9; i++) {
+            this.addCommand({
+                id: `jump-to-checkpoint-${i + 1}`,
+                name: `Jump to checkpoint ${i + 1}`,
+                callback: () => this.withZenView(view => view.jumpToCheckpointIndex(i))
+            });
+        }
+        this.addCommand({ id: 'bookmark-position', name: 'Bookmark current playback position', callback: () => this.withZenView(view => view.bookmarkCurrentPosition()) });
+        this.addCommand({
+            id: 'import-playlist',
+            name: 'Import playlist from file',
+            callback: () => new PlaylistFileSuggestModal(this.app, file => this.importPlaylist(file)).open()
+        });
+        this.addCommand({ id: 'export-playlist', name: 'Export playlist to file', callback: () => this.exportPlaylist() });
+
+        // --- Interruptions ---
+        (['internal', 'external'] as Interruption['kind'][]).forEach(kind => {
+            this.addCommand({
+                id: `log-${kind}-interruption`,
+                name: `Log ${kind} interruption`,
+                checkCallback: (checking) => {
+                    if (this.timer.state !== TimerState.Focus || this.timer.phaseStartedAt === null) return false;
+                    if (!checking) this.logInterruption(kind);
+                    return true;
+                }
+            });
+        });
+        this.addCommand({
+            id: 'log-interruption-with-note',
+            name: 'Log interruption with note',
+            checkCallback: (checking) => {
+                if (this.timer.state !== TimerState.Focus || this.timer.phaseStartedAt === null) return false;
+                if (!checking) this.promptInterruption();
+                return true;
+            }
+        });
+
+        // --- Alerts ---
+        this.addCommand({
+            id: 'acknowledge-alert',
+            name: 'Acknowledge phase-end reminder',
+            checkCallback: (checking) => {
+                if (!this.reminderNotice) return false;
+                if (!checking) this.acknowledgeAlert();
+                return true;
+            }
+        });
+
+        // --- Layout ---
+        this.addCommand({ id: 'save-focus-layout', name: 'Save current layout as focus layout', callback: () => this.saveFocusLayout() });
+        this.addCommand({
+            id: 'clear-focus-layout',
+            name: 'Clear focus layout',
+            checkCallback: (checking) => {
+                if (!this.settings.focusLayout) return false;
+                if (!checking) this.clearFocusLayout();
+                return true;
+            }
+        });
+
+        // --- Tasks ---
+        this.addCommand({
+            id: 'add-task',
+            name: 'Add task',
+            callback: () => new TaskInputModal(this.app, this.settings.dailyNoteTargetHeader || "Todo", (content, header) => this.addTask(content, header)).open()
+        });
+        this.addCommand({ id: 'pull-tasks', name: 'Pull tasks from sources', callback: () => this.pullTasks() });
     }
 
     async loadSettings() { 
@@ -1115,12 +4484,452 @@ export default class ZenZonePlugin extends Plugin {
             const oldRef = loadedData?.breakMusic || DEFAULT_MUSIC_REF_BREAK;
             settings.breakMusic = Array(4).fill(null).map(() => ({ ...oldRef }));
         }
+
+        // Handle migration from the fixed four-slot schedule
+        if (loadedData && loadedData.cyclesBeforeLongBreak === undefined) {
+            settings.cyclesBeforeLongBreak = Math.max(settings.workMusic.length, TIME_CONSTRAINTS.cycles.min);
+        }
+        fillMusicSchedule(settings);
+
+        // 遷移ごとの通知設定は、欠けている項目を既定値で補う
+        settings.alerts = Object.fromEntries((Object.keys(DEFAULT_SETTINGS.alerts) as AlertTransition[])
+            .map(key => [key, { ...DEFAULT_SETTINGS.alerts[key], ...loadedData?.alerts?.[key] }])) as Record<AlertTransition, PhaseAlert>;
         
         this.settings = settings;
     }
 
     async saveSettings() { await this.saveData(this.settings); }
 
+    // --- Playlist File ---
+    getPlaylistFilePath(): string {
+        return normalizePath(this.settings.playlistFilePath || DEFAULT_SETTINGS.playlistFilePath);
+    }
+
+    /** Saves playlist edits and mirrors them to the playlist file when syncing is on. */
+    async savePlaylist() {
+        await this.saveSettings();
+        if (this.settings.syncPlaylistFile) await this.writePlaylistFile();
+        this.getZenView()?.renderTrackOptions();
+    }
+
+    /** The file wins when it already exists; otherwise it is created from the current playlist. */
+    async startPlaylistSync() {
+        const file = this.app.vault.getAbstractFileByPath(this.getPlaylistFilePath());
+        if (file instanceof TFile) await this.importPlaylist(file, true);
+        else await this.writePlaylistFile();
+    }
+
+    async exportPlaylist() {
+        const file = await this.writePlaylistFile();
+        if (file) new Notice(`📤 Exported ${this.settings.playlistData.length} tracks to ${file.path}`);
+    }
+
+    private async writePlaylistFile(): Promise<TFile | null> {
+        const path = this.getPlaylistFilePath();
+        const extension = path.split('.').pop()?.toLowerCase() ?? "md";
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        try {
+            if (existing instanceof TFile && extension === "md") {
+                // 本文は残して frontmatter だけを書き換える
+                await this.app.fileManager.processFrontMatter(existing, fm => {
+                    fm[PLAYLIST_FILE_KEY] = 1;
+                    fm.tracks = toPlaylistEntries(this.settings.playlistData);
+                });
+                return existing;
+            }
+            const content = serializePlaylist(this.settings.playlistData, extension);
+            if (existing instanceof TFile) {
+                if (await this.app.vault.read(existing) !== content) await this.app.vault.modify(existing, content);
+                return existing;
+            }
+            return await this.app.vault.create(path, content);
+        } catch (e) {
+            console.error("ZenZone: Failed to write playlist file", e);
+            new Notice(`⚠️ Could not write ${path}`);
+            return null;
+        }
+    }
+
+    /**
+     * Imports tracks from a playlist file. `replace` makes the file the source of truth (sync);
+     * otherwise tracks are merged by URL (or title for generated tracks).
+     */
+    async importPlaylist(file: TFile, replace = false) {
+        const tracks = parsePlaylistFile(await this.app.vault.read(file), file.extension);
+        if (!tracks) {
+            new Notice(`⚠️ ${file.basename} is not a Zen Zone playlist.`);
+            return;
+        }
+
+        const playlist = this.settings.playlistData;
+        if (replace) {
+            if (JSON.stringify(tracks) === JSON.stringify(playlist)) return;
+            const keyOf = (t: PlaylistItem) => t.generator ? `generator:${t.title}` : t.url;
+            // 同じ曲はファイル内の新しい位置へ付け替え、消えた曲は参照から外す
+            const newIndexes = playlist.map(old => tracks.findIndex(t => keyOf(t) === keyOf(old)));
+            // ビューが参照している配列をそのまま書き換える
+            playlist.splice(0, playlist.length, ...tracks);
+            remapTrackIndexes(this.settings, index => (newIndexes[index] ?? -1) >= 0 ? newIndexes[index] : null);
+        } else {
+            const keyOf = (t: PlaylistItem) => t.generator ? `generator:${t.title}` : t.url;
+            // 既存の曲は同じ位置で置き換え、新しい曲は末尾に足すので、参照の付け替えは要らない
+            tracks.forEach(track => {
+                const index = playlist.findIndex(t => keyOf(t) === keyOf(track));
+                if (index >= 0) playlist[index] = track;
+                else playlist.push(track);
+            });
+        }
+
+        await this.saveSettings();
+        this.getZenView()?.renderTrackOptions();
+        if (!replace) new Notice(`📥 Imported ${tracks.length} tracks from ${file.basename}`);
+    }
+
+    /** Replaces a YouTube playlist entry with one track per video. */
+    async expandYouTubePlaylist(index: number) {
+        const track = this.settings.playlistData[index];
+        const listId = track ? extractYouTubeInfo(track.url).listId : null;
+        if (!track || !listId) return;
+
+        const progress = new Notice("⏳ Loading playlist...", 0);
+        let ids: string[];
+        try {
+            ids = await fetchYouTubePlaylistIds(listId);
+        } catch (e) {
+            progress.hide();
+            new Notice(`⚠️ Could not expand playlist (${e.message}). Add its videos as separate tracks instead.`);
+            return;
+        }
+        if (ids.length > PLAYLIST_EXPAND_MAX_TRACKS) {
+            new Notice(`⚠️ ${track.title} has ${ids.length} videos. Only the first ${PLAYLIST_EXPAND_MAX_TRACKS} are added.`);
+            ids = ids.slice(0, PLAYLIST_EXPAND_MAX_TRACKS);
+        }
+
+        // タイトルは数件ずつまとめて取得し、進み具合を表示する
+        const titles: (string | null)[] = [];
+        for (let start = 0; start < ids.length; start += TITLE_FETCH_BATCH_SIZE) {
+            progress.setMessage(`⏳ Fetching titles ${start}/${ids.length}...`);
+            const batch = ids.slice(start, start + TITLE_FETCH_BATCH_SIZE);
+            titles.push(...await Promise.all(batch.map(fetchYouTubeTitle)));
+        }
+        progress.hide();
+
+        const items: PlaylistItem[] = ids.map((id, i) => ({
+            title: titles[i] ?? `${track.title} #${i + 1}`,
+            url: `https://www.youtube.com/watch?v=${id}`,
+            checkpoints: []
+        }));
+
+        // 取得中にプレイリストが編集されていても、展開するエントリを見失わない
+        const at = this.settings.playlistData.indexOf(track);
+        if (at < 0) return;
+        this.settings.playlistData.splice(at, 1, ...items);
+        // 展開したプレイリストを指していた参照は、その最初の曲に向ける
+        remapTrackIndexes(this.settings, i => i > at ? i + items.length - 1 : i === at && items.length === 0 ? null : i);
+        await this.savePlaylist();
+        new Notice(`📃 Expanded ${track.title} into ${items.length} tracks`);
+    }
+
+    async addSessionRecord(record: SessionRecord) {
+        this.settings.sessionHistory.push(record);
+        const task = record.taskId ? this.settings.tasks.find(t => t.id === record.taskId) : null;
+        if (task && record.state === TimerState.Focus && record.outcome === 'completed') {
+            task.actual = (task.actual ?? 0) + 1;
+            this.getZenView()?.renderTaskCardRefresh();
+        }
+        // 記録はノートへの書き込みより先に保存する (書き込みに失敗しても履歴は残す)
+        await this.saveSettings();
+        this.refreshStatsViews();
+        if (this.settings.sessionLogEnabled) await this.appendSessionLog(record);
+    }
+
+    async setTaskEstimate(task: TaskItem, estimate: number | undefined) {
+        task.estimate = estimate;
+        await this.saveSettings();
+        this.getZenView()?.renderTaskCardRefresh();
+    }
+
+    toggleTimer() {
+        const view = this.getZenView();
+        if (view) {
+            void view.toggleTimer();
+        } else if (this.timer.isRunning) {
+            this.timer.pause();
+        } else {
+            this.timer.start();
+        }
+    }
+
+    /** Runs `action` against the Zen view, loading it in the background if it isn't open. */
+    async withZenView(action: (view: ZenView) => void) {
+        let view = this.getZenView();
+        if (!view) {
+            const leaf = this.app.workspace.getRightLeaf(false);
+            if (leaf) await leaf.setViewState({ type: VIEW_TYPE_ZEN, active: false });
+            view = this.getZenView();
+        }
+        if (view) action(view);
+    }
+
+    async addTask(input: string, header: string | undefined) {
+        const { text: content, estimate } = extractPomodoros(input);
+        const filePath = this.getDailyNotePath(moment());
+
+        const newTask: TaskItem = {
+            id: Date.now().toString(),
+            content: content,
+            completed: false,
+            header: header,
+            filePath: filePath,
+            blockId: this.settings.autoLogToDaily ? createBlockId() : undefined,
+            estimate: estimate
+        };
+
+        this.settings.tasks.push(newTask);
+        await this.manageDailyTask(newTask, 'add');
+        await this.saveSettings();
+        this.getZenView()?.renderTaskCardRefresh();
+    }
+
+    // ノートの書き換えで reconcile が走る前にキューから外しておく
+    /** Checks the task off in its note and removes it from the queue. */
+    async completeTask(task: TaskItem) {
+        this.removeTask(task);
+        if (!task.conflict) await this.manageDailyTask(task, 'complete');
+        await this.saveSettings();
+        this.getZenView()?.renderTaskCardRefresh();
+    }
+
+    /** Removes the task from the queue. The note line is only deleted when `deleteLine` is set; otherwise it is just unlinked. */
+    async deleteTask(task: TaskItem, deleteLine = false) {
+        this.removeTask(task);
+        if (!task.conflict) {
+            if (deleteLine) await this.manageDailyTask(task, 'delete');
+            else if (task.blockId) await this.updateLinkedTask(task, 'unlink');
+        }
+        await this.saveSettings();
+        this.getZenView()?.renderTaskCardRefresh();
+    }
+
+    /** Resolves a conflict by keeping the task in the queue without a note link. */
+    async unlinkTask(task: TaskItem) {
+        delete task.conflict;
+        delete task.blockId;
+        delete task.filePath;
+        await this.saveSettings();
+        this.getZenView()?.renderTaskCardRefresh();
+    }
+
+    // ノートへの書き込み中にキューが変わることがあるので、位置は毎回引き直す
+    private removeTask(task: TaskItem) {
+        const idx = this.settings.tasks.indexOf(task);
+        if (idx > -1) this.settings.tasks.splice(idx, 1);
+    }
+
+    // --- Task Sources ---
+    /** Adds open `- [ ]` items from the configured sources to the queue and links them by block ID. */
+    async pullTasks() {
+        // 値が空のソースは何にも一致しないので、取り込み対象から外す
+        const sources = this.settings.taskSources.filter(isTaskSourceSet);
+        if (sources.length === 0) {
+            new Notice("No task sources yet. Add one in Zen Zone settings.");
+            return;
+        }
+        if (sources.length < this.settings.taskSources.length) {
+            new Notice("Skipped task sources without a value.");
+        }
+
+        const activePath = this.app.workspace.getActiveFile()?.path ?? null;
+        const tasks = this.settings.tasks;
+        let added = 0;
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const cache = this.app.metadataCache.getFileCache(file);
+            const openItems = cache?.listItems?.filter(item => item.task === ' ') ?? [];
+            if (!cache || openItems.length === 0) continue;
+
+            const fileTags = getAllTags(cache) ?? [];
+            const lines = (await this.app.vault.cachedRead(file)).split("\n");
+            // ID を新しく付ける行は、ファイルへの書き込みが済んでからキューに載せる
+            const pending = new Map<number, { blockId: string, adopt: (blockId: string) => void }>();
+
+            for (const item of openItems) {
+                const lineNo = item.position.start.line;
+                const parsed = parseTaskLine(lines[lineNo] ?? "");
+                if (!parsed || parsed.checked) continue;
+                if (!sources.some(source => matchesTaskSource(source, file, fileTags, parsed.text, activePath))) continue;
+
+                const pomodoros = extractPomodoros(parsed.text);
+                const linked = tasks.find(t => t.filePath === file.path && (
+                    parsed.blockId ? t.blockId === parsed.blockId : (!t.blockId && t.content === pomodoros.text)
+                ));
+                const heading = cache.headings?.filter(h => h.position.start.line < lineNo).pop();
+                const adopt = (blockId: string) => {
+                    if (linked) {
+                        linked.blockId = blockId;
+                        return;
+                    }
+                    tasks.push({
+                        id: `${Date.now()}-${added}`,
+                        content: pomodoros.text,
+                        completed: false,
+                        header: heading?.heading,
+                        filePath: file.path,
+                        blockId: blockId,
+                        estimate: pomodoros.estimate,
+                        actual: pomodoros.actual
+                    });
+                    added++;
+                };
+                if (parsed.blockId) adopt(parsed.blockId);
+                else pending.set(lineNo, { blockId: createBlockId(), adopt });
+            }
+
+            if (pending.size > 0) {
+                const written = new Set<number>();
+                await this.app.vault.process(file, data => {
+                    const current = data.split("\n");
+                    pending.forEach(({ blockId }, lineNo) => {
+                        // 読み込み後に行が変わっていたら付けない (次回の取り込みで付く)
+                        if (current[lineNo] !== undefined && current[lineNo] === lines[lineNo]) {
+                            current[lineNo] = `${current[lineNo].trimEnd()} ^${blockId}`;
+                            written.add(lineNo);
+                        }
+                    });
+                    return current.join("\n");
+                });
+                pending.forEach(({ blockId, adopt }, lineNo) => {
+                    if (written.has(lineNo)) adopt(blockId);
+                });
+            }
+        }
+
+        await this.saveSettings();
+        this.getZenView()?.renderTaskCardRefresh();
+        new Notice(added > 0 ? `📥 Pulled ${added} task${added > 1 ? "s" : ""}` : "No new tasks found.");
+    }
+
+    // --- Task Reconciliation ---
+    /**
+     * Brings the queue in line with edits made directly in `file`: ticked boxes complete the task,
+     * edited text renames it, and removed or duplicated lines are flagged as conflicts.
+     */
+    async reconcileTaskFile(file: TFile) {
+        const linked = this.settings.tasks.filter(t => t.blockId && t.filePath === file.path);
+        if (linked.length === 0) return;
+
+        const lines = (await this.app.vault.cachedRead(file)).split("\n");
+        let changed = false;
+
+        for (const task of linked) {
+            const matches = lines
+                .map(line => parseTaskLine(line))
+                .filter((parsed): parsed is ParsedTaskLine => parsed !== null && parsed.blockId === task.blockId);
+
+            let conflict: string | undefined;
+            if (matches.length === 0) conflict = `Removed from ${file.basename}`;
+            else if (matches.length > 1) conflict = `^${task.blockId} appears ${matches.length} times in ${file.basename}`;
+
+            if (conflict) {
+                if (task.conflict !== conflict) {
+                    task.conflict = conflict;
+                    changed = true;
+                    new Notice(`⚠️ ${task.content}: ${conflict}`);
+                }
+                continue;
+            }
+
+            const parsed = matches[0];
+            if (task.conflict) {
+                delete task.conflict;
+                changed = true;
+            }
+            if (parsed.checked) {
+                this.removeTask(task);
+                changed = true;
+                new Notice(`✅ Completed in ${file.basename}: ${task.content}`);
+            } else {
+                const { text, estimate } = extractPomodoros(parsed.text);
+                if (text !== task.content || (estimate !== undefined && estimate !== task.estimate)) {
+                    task.content = text;
+                    if (estimate !== undefined) task.estimate = estimate;
+                    changed = true;
+                }
+            }
+        }
+
+        if (!changed) return;
+        await this.saveSettings();
+        this.getZenView()?.renderTaskCardRefresh();
+    }
+
+    /** Catches up with edits made while Obsidian was closed. */
+    async reconcileAllTasks() {
+        const paths = new Set(this.settings.tasks.filter(t => t.blockId).map(t => t.filePath).filter((p): p is string => !!p));
+        for (const path of paths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) await this.reconcileTaskFile(file);
+            else await this.handleLinkedFileDeleted(path);
+        }
+    }
+
+    async handleLinkedFileRenamed(file: TAbstractFile, oldPath: string) {
+        let changed = false;
+        this.settings.tasks.forEach(task => {
+            if (!task.filePath) return;
+            if (task.filePath === oldPath) {
+                task.filePath = file.path;
+                changed = true;
+            } else if (file instanceof TFolder && task.filePath.startsWith(`${oldPath}/`)) {
+                task.filePath = file.path + task.filePath.slice(oldPath.length);
+                changed = true;
+            }
+        });
+        if (changed) await this.saveSettings();
+    }
+
+    async handleLinkedFileDeleted(path: string) {
+        const affected = this.settings.tasks.filter(t => t.blockId && t.filePath && (t.filePath === path || t.filePath.startsWith(`${path}/`)));
+        const conflict = `Note ${path} was deleted`;
+        const fresh = affected.filter(t => t.conflict !== conflict);
+        if (fresh.length === 0) return;
+
+        fresh.forEach(task => task.conflict = conflict);
+        new Notice(`⚠️ ${conflict}. ${fresh.length} task${fresh.length > 1 ? "s" : ""} need${fresh.length > 1 ? "" : "s"} attention in Zen Zone.`);
+        await this.saveSettings();
+        this.getZenView()?.renderTaskCardRefresh();
+    }
+
+    async applyPreset(id: string) {
+        const preset = this.settings.presets.find(p => p.id === id);
+        if (!preset) return;
+
+        Object.assign(this.settings, JSON.parse(JSON.stringify(pickPresetFields(preset))));
+        this.settings.activePresetId = preset.id;
+        fillMusicSchedule(this.settings);
+        await this.saveSettings();
+
+        this.timer.syncIdleDuration();
+        this.getZenView()?.renderPresetOptions();
+        new Notice(this.timer.hasProgress ? `⏱ Preset: ${preset.name} (from the next session)` : `⏱ Preset: ${preset.name}`);
+    }
+
+    getZenView(): ZenView | null {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_ZEN)[0];
+        return leaf && leaf.view instanceof ZenView ? leaf.view : null;
+    }
+
+    getPlayingTrackTitle(): string | null {
+        const view = this.getZenView();
+        return view && view.isMusicPlaying ? view.currentTrackTitle : null;
+    }
+
+    refreshStatsViews() {
+        this.app.workspace.getLeavesOfType(VIEW_TYPE_STATS).forEach(leaf => {
+            if (leaf.view instanceof ZenStatsView) leaf.view.render();
+        });
+    }
+
     updateStatusBar(text: string) {
         if (!this.statusBarItem) return;
         if (this.settings.showStatusBarTimer && text) {
@@ -1148,88 +4957,124 @@ export default class ZenZonePlugin extends Plugin {
         }
     }
 
-    getDailyNoteTemplatePath(): string | null {
+    /**
+     * Where daily notes live: Periodic Notes (daily) wins, then the core Daily Notes plugin,
+     * then Zen Zone's own folder/format settings.
+     */
+    getDailyNoteConfig(): DailyNoteConfig {
+        const fallback: DailyNoteConfig = {
+            folder: this.settings.dailyNoteFolder,
+            format: this.settings.dailyNoteFormat || DEFAULT_SETTINGS.dailyNoteFormat,
+            template: "",
+            source: 'zen-zone'
+        };
+        const registries = this.app as unknown as PluginRegistries;
         try {
-            // Check if the core daily-notes plugin is enabled and get its template
-            const dailyNotesPlugin = (this.app as any).internalPlugins.plugins["daily-notes"];
+            const daily = registries.plugins?.getPlugin?.("periodic-notes")?.settings?.daily;
+            if (daily?.enabled) {
+                return { folder: daily.folder ?? "", format: daily.format || fallback.format, template: daily.template ?? "", source: 'periodic-notes' };
+            }
+
+            const dailyNotesPlugin = registries.internalPlugins?.plugins?.["daily-notes"];
             if (dailyNotesPlugin && dailyNotesPlugin.enabled) {
-                return dailyNotesPlugin.instance.options.template;
+                const options = dailyNotesPlugin.instance?.options ?? {};
+                return { folder: options.folder ?? "", format: options.format || fallback.format, template: options.template ?? "", source: 'daily-notes' };
             }
         } catch (e) {
-            console.error("ZenZone: Failed to get daily notes template path", e);
+            console.error("ZenZone: Failed to read daily note settings", e);
         }
-        return null;
+        return fallback;
     }
 
-    async getTemplateContent(templatePath: string): Promise<string> {
-        const tFile = this.app.vault.getAbstractFileByPath(normalizePath(templatePath + ".md"));
-        if (tFile instanceof TFile) {
-            let content = await this.app.vault.read(tFile);
-            
-            // Basic template variable replacements (simulating some of Obsidian's defaults)
-            const today = moment();
-            content = content.replace(/{{\s*date\s*}}/gi, today.format("YYYY-MM-DD"));
-            content = content.replace(/{{\s*time\s*}}/gi, today.format("HH:mm"));
-            content = content.replace(/{{\s*title\s*}}/gi, today.format(this.settings.dailyNoteFormat));
-            // Date with format e.g. {{date:YYYY-MM-DD}}
-            content = content.replace(/{{\s*date:([^}]+)\s*}}/gi, (match, format) => {
-                return today.format(format.trim());
-            });
+    getDailyNotePath(date: moment.Moment): string {
+        const config = this.getDailyNoteConfig();
+        const folder = config.folder ? normalizePath(config.folder) : "";
+        const fileName = date.format(config.format);
+        return folder ? `${folder}/${fileName}.md` : `${fileName}.md`;
+    }
 
-            return content;
+    /** Creates the daily note for `date` from the configured template, or as an empty dated note. */
+    async createDailyNote(path: string, date: moment.Moment): Promise<TFile | null> {
+        try {
+            await this.ensureFolderExists(path);
+            const config = this.getDailyNoteConfig();
+            const templateFile = config.template ? this.getTemplateFile(config.template) : null;
+            const templateContent = templateFile ? renderDailyTemplate(await this.app.vault.read(templateFile), date, config.format) : "";
+            const file = await this.app.vault.create(path, templateContent || `# ${date.format("YYYY-MM-DD")}\n`);
+            if (templateContent.includes("<%")) await this.runTemplater(file);
+            new Notice(templateContent ? `Daily Note Created from Template: ${path}` : `Daily Note Created: ${path}`);
+            return file;
+        } catch (err) {
+            console.error("Failed to create daily note:", err);
+            new Notice("Failed to create Daily Note.");
+            return null;
         }
-        return "";
     }
 
-    async manageDailyTask(content: string, header: string | undefined, action: 'add' | 'complete' | 'delete', filePath?: string) {
-        if (!this.settings.autoLogToDaily) return;
+    getTemplateFile(templatePath: string): TFile | null {
+        const path = normalizePath(templatePath);
+        const file = this.app.vault.getAbstractFileByPath(path.endsWith(".md") ? path : `${path}.md`);
+        if (file instanceof TFile) return file;
+        return this.app.metadataCache.getFirstLinkpathDest(path, "");
+    }
 
-        const nowStr = moment();
-        const folder = this.settings.dailyNoteFolder ? normalizePath(this.settings.dailyNoteFolder) : "";
-        
-        let targetPath = filePath;
-        if (!targetPath) {
-            const fileName = nowStr.format(this.settings.dailyNoteFormat);
-            targetPath = folder ? `${folder}/${fileName}.md` : `${fileName}.md`;
+    /** Lets Templater process `<% %>` commands in a freshly created note, when it is installed. */
+    async runTemplater(file: TFile) {
+        const templater = (this.app as unknown as PluginRegistries).plugins?.getPlugin?.("templater-obsidian")?.templater;
+        if (typeof templater?.overwrite_file_commands !== "function") return;
+        try {
+            await templater.overwrite_file_commands(file);
+        } catch (e) {
+            console.error("ZenZone: Templater failed to process the daily note", e);
+        }
+    }
+
+    /** Appends a finished phase to the log section of that day's daily note and refreshes the summary. */
+    async appendSessionLog(record: SessionRecord) {
+        const day = moment(record.startedAt);
+        const path = this.getDailyNotePath(day);
+        let file = this.app.vault.getAbstractFileByPath(path);
+        if (!file) file = await this.createDailyNote(path, day);
+        if (!(file instanceof TFile)) return;
+
+        const header = this.settings.sessionLogHeader || DEFAULT_SETTINGS.sessionLogHeader;
+        const line = renderSessionLogLine(this.settings.sessionLogTemplate || DEFAULT_SETTINGS.sessionLogTemplate, record);
+        const summary = renderSessionSummary(this.settings.sessionSummaryTemplate, this.settings.sessionHistory, day);
+        try {
+            await this.app.vault.process(file, data => {
+                const appended = appendToSection(data, header, line);
+                return summary.trim() ? setSectionSummary(appended, header, summary) : appended;
+            });
+        } catch (err) {
+            console.error("Failed to write session log:", err);
+            new Notice("Failed to log the session to the Daily Note.");
         }
+    }
+
+    async manageDailyTask(task: TaskItem, action: 'add' | 'complete' | 'delete') {
+        if (task.blockId && action !== 'add') {
+            await this.updateLinkedTask(task, action);
+            return;
+        }
+        // 行の削除は明示的な操作なので、自動記録がオフでも行う
+        if (!this.settings.autoLogToDaily && action !== 'delete') return;
+
+        const { content, header, filePath } = task;
+        const blockSuffix = (task.estimate ? ` 🍅 ${task.estimate}` : "") + (task.blockId ? ` ^${task.blockId}` : "");
+        const nowStr = moment();
+        const targetPath = filePath || this.getDailyNotePath(nowStr);
 
         const targetHeader = header || this.settings.dailyNoteTargetHeader || "Todo";
         let file = this.app.vault.getAbstractFileByPath(targetPath);
 
         // --- Create Note if missing ---
         if (!file) {
-            if (action === 'add') {
-                try {
-                    await this.ensureFolderExists(targetPath);
-                    
-                    let initialContent = "";
-                    const templatePath = this.getDailyNoteTemplatePath();
-                    
-                    if (templatePath) {
-                        initialContent = await this.getTemplateContent(templatePath);
-                    }
-                    
-                    if (initialContent) {
-                        await this.app.vault.create(targetPath, initialContent);
-                        new Notice(`Daily Note Created from Template: ${targetPath}`);
-                        file = this.app.vault.getAbstractFileByPath(targetPath);
-                    } else {
-                        // Fallback empty note structure
-                        const taskLine = `- [ ] ${content}`;
-                        initialContent = `# ${nowStr.format("YYYY-MM-DD")}\n\n## ${targetHeader}\n${taskLine}\n`;
-                        await this.app.vault.create(targetPath, initialContent);
-                        new Notice(`Daily Note Created: ${targetPath}`);
-                        return; // Created with task already in it
-                    }
-                } catch (err) {
-                    console.error("Failed to create daily note:", err);
-                    new Notice("Failed to create Daily Note.");
-                    return;
-                }
-            } else {
+            if (action !== 'add') {
                 console.warn(`Target file not found: ${targetPath}`);
                 return;
             }
+            file = await this.createDailyNote(targetPath, nowStr);
+            if (!file) return;
         }
 
         // --- Modify Note ---
@@ -1239,26 +5084,37 @@ export default class ZenZonePlugin extends Plugin {
             const escapeRegex = content.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
             if (action === 'add') {
-                if (fileContent.includes(`- [ ] ${content}`)) return; // Prevent exact duplicates
-
-                const taskLine = `- [ ] ${content}`;
-                const escapedHeader = targetHeader.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-                const headerRegex = new RegExp(`(#{1,6}\\s+${escapedHeader}[\\s\\S]*?)(?=\\n#{1,6}\\s|$)`, 'i');
-                
-                if (fileContent.match(headerRegex)) {
-                    // Append to existing header section
-                    updatedContent = fileContent.replace(headerRegex, (match) => {
-                        return `${match.trimEnd()}\n${taskLine}\n`;
+                if (fileContent.includes(`- [ ] ${content}`)) {
+                    // Prevent exact duplicates, but link the existing line so reconciliation can find it
+                    const lines = fileContent.split("\n");
+                    const index = lines.findIndex(line => {
+                        const parsed = parseTaskLine(line);
+                        return parsed && !parsed.checked && extractPomodoros(parsed.text).text === content;
                     });
-                } else {
-                    // Append header and task to bottom if header doesn't exist
-                    updatedContent = fileContent.trimEnd() + `\n\n## ${targetHeader}\n${taskLine}`;
+                    const existing = index >= 0 ? parseTaskLine(lines[index]) : null;
+                    if (existing && task.blockId) {
+                        let line = lines[index];
+                        // 既存行の 🍅 とブロック ID はそのまま使い、無いものだけ足す
+                        if (task.estimate && extractPomodoros(existing.text).estimate === undefined) {
+                            line = withPomodoroToken(line, `🍅 ${task.estimate}`);
+                        }
+                        if (existing.blockId) task.blockId = existing.blockId;
+                        else line = `${line.trimEnd()} ^${task.blockId}`;
+                        if (line !== lines[index]) {
+                            lines[index] = line;
+                            await this.app.vault.modify(file, lines.join("\n"));
+                        }
+                    }
+                    return;
                 }
+
+                const taskLine = `- [ ] ${content}${blockSuffix}`;
+                updatedContent = appendToSection(fileContent, targetHeader, taskLine);
                 new Notice(`Task added to ${targetHeader}`);
 
             } else if (action === 'complete') {
                 const searchRegex = new RegExp(`^([\\s\\t]*)[-*+]\\s+\\[ \\]\\s+${escapeRegex}\\s*$`, 'm');
-                const completedLine = `- [x] ${nowStr.format("HH:mm")} ${content}`;
+                const completedLine = `- [x] ${nowStr.format("HH:mm")} ${content}${task.actual || task.estimate ? ` ${formatPomodoros(task)}` : ""}`;
                 
                 if (searchRegex.test(fileContent)) {
                     updatedContent = fileContent.replace(searchRegex, `$1${completedLine}`);
@@ -1281,6 +5137,39 @@ export default class ZenZonePlugin extends Plugin {
         }
     }
 
+    /** Completes, unlinks or deletes the note line carrying the task's block ID, wherever the note lives. */
+    async updateLinkedTask(task: TaskItem, action: 'complete' | 'unlink' | 'delete') {
+        const file = this.app.vault.getAbstractFileByPath(task.filePath ?? "");
+        if (!(file instanceof TFile) || !task.blockId) {
+            if (action !== 'unlink') new Notice(`Linked note not found: ${task.filePath}`);
+            return;
+        }
+
+        const blockId = task.blockId;
+        let found = false;
+        await this.app.vault.process(file, data => {
+            const lines = data.split("\n");
+            const index = findTaskLine(lines, blockId);
+            if (index < 0) return data;
+            found = true;
+            if (action === 'complete') {
+                lines[index] = lines[index].replace(/\[ \]\s+/, `[x] ${moment().format("HH:mm")} `);
+                if (task.actual || task.estimate) lines[index] = withPomodoroToken(lines[index], formatPomodoros(task));
+            } else if (action === 'unlink') {
+                // 行はユーザーのものなので、付けたブロック ID だけを外す
+                lines[index] = lines[index].replace(new RegExp(`\\s*\\^${escapeRegExp(blockId)}\\s*$`), "");
+            } else {
+                lines.splice(index, 1);
+            }
+            return lines.join("\n");
+        });
+
+        if (action === 'unlink') return;
+        if (!found) new Notice(`Task not found in ${file.basename}.`);
+        else if (action === 'complete') new Notice(`Task marked completed in ${file.basename}`);
+        else new Notice(`Task deleted from ${file.basename}`);
+    }
+
     // --- View/Mode Management ---
     async activateView() {
         const { workspace } = this.app;
@@ -1292,30 +5181,228 @@ export default class ZenZonePlugin extends Plugin {
         if(leaf) workspace.revealLeaf(leaf);
     }
 
-    enterZenMode() {
-        document.body.classList.add('zen-mode-active');
-        if (this.settings.autoCollapseSidebars) {
-            if (this.app.workspace.leftSplit) this.app.workspace.leftSplit.collapse();
-            if (this.app.workspace.rightSplit) this.app.workspace.rightSplit.collapse();
+    async activateStatsView() {
+        const { workspace } = this.app;
+        let leaf: WorkspaceLeaf | null | undefined = workspace.getLeavesOfType(VIEW_TYPE_STATS)[0];
+        if (!leaf) {
+            leaf = workspace.getLeaf('tab');
+            if(leaf) await leaf.setViewState({ type: VIEW_TYPE_STATS, active: true });
         }
+        if(leaf) workspace.revealLeaf(leaf);
+    }
+
+    /** Resolves once the last switch into or out of Focus Mode, including its layout swap, has finished. */
+    zenModeChange: Promise<void> = Promise.resolve();
+
+    // 開始直後のリセットなどでレイアウトの入れ替えが重ならないよう、切り替えは順番に行う
+    private queueZenModeChange(change: () => Promise<void>): Promise<void> {
+        this.zenModeChange = this.zenModeChange.then(change).catch(e => {
+            console.error("ZenZone: Failed to switch Focus Mode", e);
+        });
+        return this.zenModeChange;
+    }
+
+    enterZenMode(): Promise<void> {
+        return this.queueZenModeChange(() => this.switchToZenMode());
+    }
+
+    exitZenMode(): Promise<void> {
+        return this.queueZenModeChange(() => this.switchFromZenMode());
+    }
+
+    private async switchToZenMode() {
+        const isFresh = !document.body.classList.contains('zen-mode-active');
+        document.body.classList.add('zen-mode-active');
         if (this.settings.hideHeader) {
             document.body.classList.add('zen-hide-header');
         }
         new Notice("🧘 Focus Mode On");
+
+        // 再読み込み後の復元では、保存済みのスナップショットをそのまま使う
+        const focusLayout = this.settings.useFocusLayout ? this.settings.focusLayout : null;
+        if (isFresh && !this.settings.layoutSnapshot && (this.settings.restoreLayout || focusLayout)) {
+            this.settings.layoutSnapshot = this.app.workspace.getLayout();
+            await this.saveSettings();
+            if (focusLayout) await this.applyLayout(focusLayout);
+        }
+
+        if (this.settings.autoCollapseSidebars) {
+            if (this.app.workspace.leftSplit) this.app.workspace.leftSplit.collapse();
+            if (this.app.workspace.rightSplit) this.app.workspace.rightSplit.collapse();
+        }
     }
 
-    exitZenMode() {
+    private async switchFromZenMode() {
         document.body.classList.remove('zen-mode-active');
         document.body.classList.remove('zen-hide-header');
         this.updateStatusBar(""); // Clear status timer
         new Notice("Focus Mode Off");
+
+        const snapshot = this.settings.layoutSnapshot;
+        if (!snapshot) return;
+        this.settings.layoutSnapshot = null;
+        await this.saveSettings();
+        await this.applyLayout(snapshot);
+    }
+
+    /** Replaces the whole workspace layout, carrying the music over to the rebuilt Zen view. */
+    async applyLayout(layout: Record<string, unknown>) {
+        // レイアウトの入れ替えで Zen ビューが作り直されるので、再生中の曲と位置を控えておく
+        const previousView = this.getZenView();
+        const audio = previousView?.captureAudioState() ?? null;
+        try {
+            await this.app.workspace.changeLayout(layout);
+        } catch (e) {
+            console.error("ZenZone: Failed to change workspace layout", e);
+            new Notice("⚠️ Could not restore the workspace layout.");
+            return;
+        }
+        if (!audio) return;
+        await this.withZenView(view => {
+            if (view !== previousView) view.restoreAudioState(audio);
+        });
+    }
+
+    // --- Phase-end Alerts ---
+    /** Chimes and notifies for a finished phase; a finished break keeps reminding until acknowledged. */
+    alertPhaseEnd(ended: TimerState, next: TimerState | null) {
+        const transition: AlertTransition = next === null ? 'session-end' : ended === TimerState.Focus ? 'focus-end' : 'break-end';
+        // 休憩 → 休憩 のようなカスタムフェーズの切り替えは通知しない
+        if (transition === 'focus-end' && next === TimerState.Focus) return;
+        if (transition === 'break-end' && next !== TimerState.Focus) return;
+
+        this.sendAlert(transition);
+        if (transition !== 'break-end') return;
+
+        this.acknowledgeAlert();
+        const message = ALERT_LABELS[transition].message;
+        this.reminderNotice = new Notice(this.settings.reminderMinutes > 0 ? `${message} (click to dismiss)` : message, this.settings.reminderMinutes > 0 ? 0 : undefined);
+        this.reminderNotice.noticeEl.addEventListener("click", () => this.acknowledgeAlert());
+        if (this.settings.reminderMinutes > 0) {
+            this.reminderInterval = window.setInterval(() => this.sendAlert(transition), this.settings.reminderMinutes * 60 * 1000);
+        }
+    }
+
+    sendAlert(transition: AlertTransition) {
+        const alert = this.settings.alerts[transition];
+        this.chimes.play(this.app, alert, this.settings.chimeVolume);
+        if (alert.notify) this.showSystemNotification(ALERT_LABELS[transition].message);
+    }
+
+    showSystemNotification(message: string) {
+        if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+        // 音はチャイム側で鳴らすので、OS の通知音は止める
+        const notification = new Notification("Zen Zone", { body: message, silent: true });
+        notification.onclick = () => {
+            window.focus();
+            this.acknowledgeAlert();
+            notification.close();
+        };
+    }
+
+    private acknowledgeAlertOnActivity() {
+        if (this.reminderInterval !== null) this.acknowledgeAlert();
+    }
+
+    acknowledgeAlert() {
+        if (this.reminderInterval) window.clearInterval(this.reminderInterval);
+        this.reminderInterval = null;
+        this.reminderNotice?.hide();
+        this.reminderNotice = null;
+    }
+
+    // --- Interruptions ---
+    logInterruption(kind: Interruption['kind'], note?: string) {
+        if (this.timer.logInterruption(kind, note)) {
+            new Notice(`${kind === 'internal' ? "💭" : "📞"} Logged ${kind} interruption${note ? `: ${note}` : ""}`);
+        } else {
+            new Notice("Interruptions can only be logged during Focus.");
+        }
+    }
+
+    promptInterruption() {
+        new InterruptionModal(this.app, (kind, note) => this.logInterruption(kind, note)).open();
+    }
+
+    /**
+     * Logs an external interruption when the window was left for longer than the threshold during Focus.
+     * It is charged to the phase that was running when the window lost focus, even if that phase has ended since.
+     */
+    handleWindowFocus() {
+        const blurredAt = this.blurredAt;
+        const phaseStartedAt = this.blurredPhaseStartedAt;
+        this.blurredAt = this.blurredPhaseStartedAt = null;
+        if (blurredAt === null || phaseStartedAt === null) return;
+        const awaySeconds = Math.round((this.timer.clock.now() - blurredAt) / 1000);
+        if (!this.settings.detectInterruptions || awaySeconds < this.settings.interruptionAwaySeconds) return;
+        const interruption: Interruption = { kind: 'external', at: blurredAt, note: `Away ${formatTimestamp(awaySeconds)}`, auto: true };
+        if (this.timer.logInterruptionInPhase(phaseStartedAt, interruption)) {
+            new Notice(`📞 You were away for ${formatTimestamp(awaySeconds)} — logged as an interruption`);
+        }
+    }
+
+    // --- Focus Lock ---
+    /** Warns about, or bounces back from, notes outside the allow-list while Focus is running. */
+    async checkFocusLock(file: TFile | null) {
+        if (!file || this.isRedirecting || this.settings.focusLock === 'off') return;
+        if (!this.timer.isRunning || this.timer.state !== TimerState.Focus) return;
+        if (await this.isAllowedDuringFocus(file)) {
+            this.lastAllowedFile = file;
+            return;
+        }
+
+        this.timer.recordDistraction();
+        if (this.settings.focusLock === 'warn') {
+            new Notice(`🚧 "${file.basename}" is outside your focus notes`);
+            return;
+        }
+
+        new Notice(`🔒 "${file.basename}" is locked until the break`);
+        const leaf = this.app.workspace.getMostRecentLeaf();
+        if (!leaf) return;
+        this.isRedirecting = true;
+        try {
+            const fallback = this.lastAllowedFile;
+            if (fallback && this.app.vault.getAbstractFileByPath(fallback.path)) await leaf.openFile(fallback);
+            else leaf.detach();
+        } finally {
+            this.isRedirecting = false;
+        }
+    }
+
+    async isAllowedDuringFocus(file: TFile): Promise<boolean> {
+        const task = this.settings.tasks[0];
+        const taskNote = this.settings.focusLockTaskNote ? task?.filePath : undefined;
+        const rules = this.settings.focusLockSources.filter(isTaskSourceSet);
+        // 許可リストが空ならロックしようがないので全て許可
+        if (!taskNote && rules.length === 0) return true;
+        if (taskNote === file.path) return true;
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        const tags = cache ? getAllTags(cache) ?? [] : [];
+        const needsText = file.extension === "md" && rules.some(rule => rule.type === 'query');
+        const text = needsText ? await this.app.vault.cachedRead(file) : "";
+        return rules.some(rule => matchesTaskSource(rule, file, tags, text, this.focusStartPath));
+    }
+
+    async saveFocusLayout() {
+        this.settings.focusLayout = this.app.workspace.getLayout();
+        await this.saveSettings();
+        new Notice("🗂 Saved the current layout as your focus layout");
+    }
+
+    async clearFocusLayout() {
+        this.settings.focusLayout = null;
+        this.settings.useFocusLayout = false;
+        await this.saveSettings();
+        new Notice("Focus layout cleared");
     }
 
-    showBreakOverlay() {
+    showBreakOverlay(completedCycles: number) {
         this.overlayEl = document.body.createDiv({ cls: "zen-break-overlay" });
         const content = this.overlayEl.createDiv({ cls: "zen-break-content" });
         content.createEl("h1", { text: "🎉 Session Complete" });
-        content.createDiv({ text: "Great work! You've completed 4 cycles." });
+        content.createDiv({ text: `Great work! You've completed ${completedCycles} cycles.` });
         const closeBtn = content.createEl("button", { text: "Finish" });
         closeBtn.onclick = () => { if (this.overlayEl) { this.overlayEl.remove(); this.overlayEl = null; } };
     }
@@ -0,0 +1,77 @@
+/**
+ * Minimal runtime stand-in for the `obsidian` module, which only ships type declarations.
+ * Just enough for main.ts to load and for ZenTimer to run outside the app.
+ */
+import * as Moment from "moment";
+
+// moment is CommonJS; a namespace import only exposes the callable function as `default` at runtime
+export const moment = ((Moment as unknown as { default?: typeof Moment }).default ?? Moment) as typeof Moment;
+
+export interface EventRef {
+    name: string;
+    callback: (...data: unknown[]) => unknown;
+}
+
+export class Events {
+    private handlers: EventRef[] = [];
+
+    on(name: string, callback: (...data: unknown[]) => unknown): EventRef {
+        const ref = { name, callback };
+        this.handlers.push(ref);
+        return ref;
+    }
+
+    off(name: string, callback: (...data: unknown[]) => unknown) {
+        this.handlers = this.handlers.filter(h => h.name !== name || h.callback !== callback);
+    }
+
+    offref(ref: EventRef) {
+        this.handlers = this.handlers.filter(h => h !== ref);
+    }
+
+    trigger(name: string, ...data: unknown[]) {
+        this.handlers.filter(h => h.name === name).forEach(h => h.callback(...data));
+    }
+}
+
+/** Every message shown, so tests can check what the user would have seen. */
+export class Notice {
+    static messages: string[] = [];
+    noticeEl = {} as HTMLElement;
+
+    constructor(message: string) {
+        Notice.messages.push(message);
+    }
+
+    hide() {}
+}
+
+export class Plugin {}
+export class ItemView {}
+export class Modal {}
+export class FuzzySuggestModal {}
+export class PluginSettingTab {}
+export class Setting {}
+export class ButtonComponent {}
+export class Menu {}
+export class TAbstractFile {}
+export class TFile extends TAbstractFile {}
+export class TFolder extends TAbstractFile {}
+
+export function setIcon() {}
+export function normalizePath(path: string): string {
+    return path.replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
+}
+export function getAllTags(): string[] {
+    return [];
+}
+// JSON is valid YAML, so tests write playlist frontmatter in flow style
+export function parseYaml(text: string): unknown {
+    return JSON.parse(text);
+}
+export function stringifyYaml(value: unknown): string {
+    return `${JSON.stringify(value)}\n`;
+}
+export async function requestUrl(): Promise<never> {
+    throw new Error("requestUrl is not available in tests");
+}
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { moment } from "./__mocks__/obsidian";
+import { renderDailyTemplate } from "../main";
+
+describe("renderDailyTemplate", () => {
+    // 2024-03-14 は木曜日。ノートは翌朝 10:30 に作る
+    const date = moment("2024-03-14", "YYYY-MM-DD");
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2024, 2, 15, 10, 30));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("uses the note's date for title and dates", () => {
+        expect(renderDailyTemplate("# {{title}} / {{date}} / {{ date:DD.MM }}", date, "YYYY-MM-DD")).toBe("# 2024-03-14 / 2024-03-14 / 14.03");
+    });
+
+    it("uses the current time on the note's date for times", () => {
+        expect(renderDailyTemplate("{{time}} {{time:HH:mm:ss}}", date, "YYYY-MM-DD")).toBe("10:30 10:30:00");
+    });
+
+    it("applies offsets", () => {
+        expect(renderDailyTemplate("{{date+1d:YYYY-MM-DD}} {{date-1w}} {{time-30m}}", date, "YYYY-MM-DD")).toBe("2024-03-15 2024-03-07 10:00");
+    });
+
+    it("formats yesterday and tomorrow with the note format", () => {
+        expect(renderDailyTemplate("[[{{yesterday}}]] [[{{tomorrow}}]]", date, "DD-MM-YYYY")).toBe("[[13-03-2024]] [[15-03-2024]]");
+    });
+
+    it("resolves weekday names within the note's week", () => {
+        expect(renderDailyTemplate("{{monday:YYYY-MM-DD}} {{Sunday:YYYY-MM-DD}}", date, "YYYY-MM-DD")).toBe("2024-03-11 2024-03-10");
+    });
+
+    it("leaves unknown variables alone", () => {
+        expect(renderDailyTemplate("{{weather}}", date, "YYYY-MM-DD")).toBe("{{weather}}");
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { ZenZoneSettings } from "../main";
+import { buildPhaseSequence, DEFAULT_SETTINGS, TimerState } from "../main";
+
+function createSettings(overrides: Partial<ZenZoneSettings> = {}): ZenZoneSettings {
+    return { ...JSON.parse(JSON.stringify(DEFAULT_SETTINGS)), workDuration: 25, shortBreakDuration: 5, longBreakDuration: 30, ...overrides };
+}
+
+describe("buildPhaseSequence", () => {
+    it("alternates focus and short breaks, ending with the long break", () => {
+        const phases = buildPhaseSequence(createSettings({ cycleMode: 'standard', cyclesBeforeLongBreak: 3 }));
+        expect(phases.map(p => [p.type, p.duration])).toEqual([
+            [TimerState.Focus, 25], [TimerState.ShortBreak, 5],
+            [TimerState.Focus, 25], [TimerState.ShortBreak, 5],
+            [TimerState.Focus, 25], [TimerState.LongBreak, 30]
+        ]);
+    });
+
+    it("has a single long break for one cycle", () => {
+        const phases = buildPhaseSequence(createSettings({ cycleMode: 'standard', cyclesBeforeLongBreak: 1 }));
+        expect(phases.map(p => p.type)).toEqual([TimerState.Focus, TimerState.LongBreak]);
+    });
+
+    it("takes each cycle's music from the schedule", () => {
+        const settings = createSettings({ cycleMode: 'standard', cyclesBeforeLongBreak: 2 });
+        settings.workMusic = [{ trackIndex: 1, checkpointIndex: -1 }, { trackIndex: 2, checkpointIndex: 0 }];
+        settings.breakMusic = [{ trackIndex: 3, checkpointIndex: -1 }];
+        const phases = buildPhaseSequence(settings);
+        expect(phases.map(p => p.music?.trackIndex)).toEqual([1, 3, 2, DEFAULT_SETTINGS.breakMusic[0].trackIndex]);
+    });
+
+    it("uses the custom phases in custom mode", () => {
+        const music = { trackIndex: 0, checkpointIndex: -1 };
+        const customPhases = [
+            { type: TimerState.Focus, duration: 50, music },
+            { type: TimerState.ShortBreak, duration: 10, music },
+            { type: TimerState.ShortBreak, duration: 5, music }
+        ];
+        expect(buildPhaseSequence(createSettings({ cycleMode: 'custom', customPhases }))).toBe(customPhases);
+    });
+
+    it("falls back to the standard cycle when no custom phases are defined", () => {
+        const phases = buildPhaseSequence(createSettings({ cycleMode: 'custom', customPhases: [], cyclesBeforeLongBreak: 2 }));
+        expect(phases).toHaveLength(4);
+    });
+});
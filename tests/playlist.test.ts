@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ZenZoneSettings } from "../main";
+import { DEFAULT_SETTINGS, parsePlaylistFile, parseTimestamp, remapTrackIndexes, serializePlaylist } from "../main";
+
+const frontmatter = (data: unknown) => `---\n${JSON.stringify(data)}\n---\n\nNotes about the mix.\n`;
+
+describe("parseTimestamp", () => {
+    it("reads seconds, m:ss and h:mm:ss", () => {
+        expect(parseTimestamp("90")).toBe(90);
+        expect(parseTimestamp("1:30")).toBe(90);
+        expect(parseTimestamp(" 1:02:03 ")).toBe(3723);
+    });
+
+    it("rejects malformed times", () => {
+        expect(parseTimestamp("")).toBeNull();
+        expect(parseTimestamp("1:60")).toBeNull();
+        expect(parseTimestamp("1::2")).toBeNull();
+        expect(parseTimestamp("1:2:3:4")).toBeNull();
+        expect(parseTimestamp("-5")).toBeNull();
+    });
+});
+
+describe("parsePlaylistFile", () => {
+    it("reads tracks from Markdown frontmatter", () => {
+        const content = frontmatter({ "zen-zone-playlist": 1, tracks: [{ title: "Rain", url: "Audio/rain.mp3" }] });
+        expect(parsePlaylistFile(content, "md")).toEqual([{ title: "Rain", url: "Audio/rain.mp3" }]);
+    });
+
+    it("reads a plain list from a YAML file", () => {
+        expect(parsePlaylistFile(JSON.stringify([{ title: "Rain", url: "rain.mp3" }]), "yaml")).toEqual([{ title: "Rain", url: "rain.mp3" }]);
+    });
+
+    it("returns null for notes that are not playlists", () => {
+        expect(parsePlaylistFile("# Just a note\n", "md")).toBeNull();
+        expect(parsePlaylistFile(frontmatter({ tags: ["music"] }), "md")).toBeNull();
+    });
+
+    it("returns null for unreadable YAML", () => {
+        const error = vi.spyOn(console, "error").mockImplementation(() => {});
+        expect(parsePlaylistFile("---\n{ not yaml\n---\n", "md")).toBeNull();
+        error.mockRestore();
+    });
+
+    it("drops entries without a title or a source", () => {
+        const tracks = parsePlaylistFile(frontmatter({ tracks: [{ url: "a.mp3" }, { title: "No source" }, "text", { title: "Ok", url: "b.mp3" }] }), "md");
+        expect(tracks?.map(t => t.title)).toEqual(["Ok"]);
+    });
+
+    it("accepts checkpoint times that YAML read as seconds", () => {
+        const tracks = parsePlaylistFile(frontmatter({ tracks: [{ title: "Mix", url: "mix.mp3", checkpoints: [{ label: "Drop", time: 90 }, { label: "Broken" }] }] }), "md");
+        expect(tracks?.[0].checkpoints).toEqual([{ label: "Drop", time: "1:30" }]);
+    });
+
+    it("falls back to safe generator settings for unknown values", () => {
+        const tracks = parsePlaylistFile(frontmatter({ tracks: [{ title: "Noise", generator: { noise: "purple", tone: "binaural", beatHz: 10 } }] }), "md");
+        expect(tracks?.[0].generator).toMatchObject({ noise: 'none', tone: 'binaural', beatHz: 10 });
+        expect(tracks?.[0].generator?.carrierHz).toBeGreaterThan(0);
+    });
+});
+
+describe("serializePlaylist", () => {
+    const tracks = [
+        { title: "Rain", url: "Audio/rain.mp3", checkpoints: [{ label: "Storm", time: "2:00" }] },
+        { title: "Brown noise", url: "", generator: { noise: 'brown' as const, tone: 'none' as const, carrierHz: 200, beatHz: 10 } }
+    ];
+
+    it("writes data only, without prose in the note body", () => {
+        const content = serializePlaylist(tracks, "md");
+        expect(content.startsWith("---\n")).toBe(true);
+        expect(content.endsWith("---\n")).toBe(true);
+    });
+
+    it("round-trips through parsePlaylistFile", () => {
+        expect(parsePlaylistFile(serializePlaylist(tracks, "md"), "md")).toEqual(tracks);
+        expect(parsePlaylistFile(serializePlaylist(tracks, "yaml"), "yaml")).toEqual(tracks);
+    });
+});
+
+describe("remapTrackIndexes", () => {
+    function createSettings(): ZenZoneSettings {
+        const settings: ZenZoneSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+        settings.workMusic[0] = { trackIndex: 2, checkpointIndex: 1 };
+        settings.breakMusic[0] = { trackIndex: 1, checkpointIndex: 0 };
+        settings.soundscapes = [{ id: "s", name: "Café", layers: [0, 1, 2].map(trackIndex => ({ trackIndex, volume: 1, muted: false })) }];
+        return settings;
+    }
+    // 1 番目の曲を削除したときの対応
+    const deleteSecond = (i: number) => i === 1 ? null : i > 1 ? i - 1 : i;
+
+    it("shifts references after a deleted track", () => {
+        const settings = createSettings();
+        remapTrackIndexes(settings, deleteSecond);
+        expect(settings.workMusic[0]).toEqual({ trackIndex: 1, checkpointIndex: 1 });
+    });
+
+    it("resets references to a deleted track", () => {
+        const settings = createSettings();
+        remapTrackIndexes(settings, deleteSecond);
+        expect(settings.breakMusic[0]).toEqual({ trackIndex: 0, checkpointIndex: -1 });
+    });
+
+    it("prunes and shifts soundscape layers", () => {
+        const settings = createSettings();
+        remapTrackIndexes(settings, deleteSecond);
+        expect(settings.soundscapes[0].layers.map(l => l.trackIndex)).toEqual([0, 1]);
+    });
+
+    it("also remaps the music of saved presets", () => {
+        const settings = createSettings();
+        settings.presets = [{ ...createSettings(), id: "p", name: "Deep work", workMusic: [{ trackIndex: 3, checkpointIndex: -1 }] }];
+        remapTrackIndexes(settings, deleteSecond);
+        expect(settings.presets[0].workMusic[0].trackIndex).toBe(2);
+    });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SessionRecord } from "../main";
+import { computeStreaks, TimerState } from "../main";
+
+function record(day: string, outcome: SessionRecord['outcome'] = 'completed'): SessionRecord {
+    const startedAt = new Date(`${day}T09:00:00`).getTime();
+    return {
+        id: `${startedAt}`,
+        state: TimerState.Focus,
+        outcome,
+        startedAt,
+        endedAt: startedAt + 25 * 60 * 1000,
+        plannedSeconds: 25 * 60,
+        actualSeconds: 25 * 60,
+        cycleCount: 0
+    };
+}
+
+describe("computeStreaks", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2024, 2, 15, 18, 0));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("is zero without completed sessions", () => {
+        expect(computeStreaks([])).toEqual({ current: 0, longest: 0 });
+        expect(computeStreaks([record("2024-03-15", 'skipped')])).toEqual({ current: 0, longest: 0 });
+    });
+
+    it("counts consecutive days up to today", () => {
+        const records = ["2024-03-13", "2024-03-14", "2024-03-15", "2024-03-15"].map(day => record(day));
+        expect(computeStreaks(records)).toEqual({ current: 3, longest: 3 });
+    });
+
+    it("keeps the streak alive until today is over", () => {
+        const records = ["2024-03-13", "2024-03-14"].map(day => record(day));
+        expect(computeStreaks(records).current).toBe(2);
+    });
+
+    it("breaks the current streak after a missed day but remembers the longest", () => {
+        const records = ["2024-03-01", "2024-03-02", "2024-03-03", "2024-03-04", "2024-03-13"].map(day => record(day));
+        expect(computeStreaks(records)).toEqual({ current: 0, longest: 4 });
+    });
+
+    it("ignores skipped and aborted phases", () => {
+        const records = [record("2024-03-14", 'aborted'), record("2024-03-15")];
+        expect(computeStreaks(records)).toEqual({ current: 1, longest: 1 });
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { extractPomodoros, parseTaskLine, withPomodoroToken } from "../main";
+
+describe("parseTaskLine", () => {
+    it("reads an open task with its block ID", () => {
+        expect(parseTaskLine("- [ ] Write report ^zen-abc1")).toEqual({ checked: false, text: "Write report", blockId: "zen-abc1" });
+    });
+
+    it("reads indented and checked tasks with any list marker", () => {
+        expect(parseTaskLine("    * [x] Done")).toEqual({ checked: true, text: "Done", blockId: null });
+        expect(parseTaskLine("+ [/] In progress")?.checked).toBe(true);
+    });
+
+    it("ignores lines that are not tasks", () => {
+        expect(parseTaskLine("- Just a bullet")).toBeNull();
+        expect(parseTaskLine("Plain text")).toBeNull();
+        expect(parseTaskLine("- [ ]")).toBeNull();
+    });
+});
+
+describe("extractPomodoros", () => {
+    it("reads an estimate", () => {
+        expect(extractPomodoros("Write report 🍅 4")).toEqual({ text: "Write report", estimate: 4 });
+    });
+
+    it("reads actual/estimate", () => {
+        expect(extractPomodoros("Write report 🍅 3/4")).toEqual({ text: "Write report", actual: 3, estimate: 4 });
+    });
+
+    it("leaves text without a token alone", () => {
+        expect(extractPomodoros("Write report")).toEqual({ text: "Write report" });
+    });
+});
+
+describe("withPomodoroToken", () => {
+    it("replaces an existing token instead of adding a second one", () => {
+        expect(withPomodoroToken("- [ ] Write 🍅 4", "🍅 1/4")).toBe("- [ ] Write 🍅 1/4");
+    });
+
+    it("keeps the block ID last", () => {
+        expect(withPomodoroToken("- [ ] Write ^zen-a1", "🍅 2")).toBe("- [ ] Write 🍅 2 ^zen-a1");
+        expect(withPomodoroToken("- [ ] Write 🍅 4 ^zen-a1", "🍅 1/4")).toBe("- [ ] Write 🍅 1/4 ^zen-a1");
+    });
+
+    it("round-trips through parseTaskLine", () => {
+        const line = withPomodoroToken("- [ ] Write ^zen-a1", "🍅 3/4");
+        const parsed = parseTaskLine(line);
+        expect(parsed?.blockId).toBe("zen-a1");
+        expect(extractPomodoros(parsed?.text ?? "")).toEqual({ text: "Write", actual: 3, estimate: 4 });
+    });
+});
@@ -0,0 +1,282 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Notice } from "./__mocks__/obsidian";
+import type ZenZonePlugin from "../main";
+import { Clock, DEFAULT_SETTINGS, Scheduler, SessionRecord, TimerState, ZenTimer } from "../main";
+
+const MINUTE = 60 * 1000;
+
+/** Clock and scheduler in one, so timers only fire when the test advances time. */
+class FakeTime implements Clock, Scheduler {
+    private current = Date.UTC(2024, 0, 1, 9, 0);
+    private nextId = 1;
+    private timers = new Map<number, { at: number; every: number | null; callback: () => void }>();
+
+    now() {
+        return this.current;
+    }
+
+    setInterval(callback: () => void, ms: number) {
+        const id = this.nextId++;
+        this.timers.set(id, { at: this.current + ms, every: ms, callback });
+        return id;
+    }
+
+    setTimeout(callback: () => void, ms: number) {
+        const id = this.nextId++;
+        this.timers.set(id, { at: this.current + ms, every: null, callback });
+        return id;
+    }
+
+    clearInterval(id: number) {
+        this.timers.delete(id);
+    }
+
+    clearTimeout(id: number) {
+        this.timers.delete(id);
+    }
+
+    /** Moves time forward, firing due timers in order. */
+    advance(ms: number) {
+        const target = this.current + ms;
+        for (;;) {
+            let nextId: number | null = null;
+            this.timers.forEach((timer, id) => {
+                if (timer.at <= target && (nextId === null || timer.at < (this.timers.get(nextId)?.at ?? Infinity))) nextId = id;
+            });
+            if (nextId === null) break;
+            const timer = this.timers.get(nextId);
+            if (!timer) break;
+            this.current = Math.max(this.current, timer.at);
+            if (timer.every !== null) timer.at += timer.every;
+            else this.timers.delete(nextId);
+            timer.callback();
+        }
+        this.current = target;
+    }
+
+    /** Jumps forward without firing anything, like a machine waking from sleep. */
+    sleep(ms: number) {
+        this.current += ms;
+    }
+}
+
+function createPlugin() {
+    const records: SessionRecord[] = [];
+    const plugin = {
+        settings: {
+            ...DEFAULT_SETTINGS,
+            workDuration: 25,
+            shortBreakDuration: 5,
+            longBreakDuration: 30,
+            cycleMode: 'standard',
+            cyclesBeforeLongBreak: 2,
+            tasks: [],
+            sessionHistory: [] as SessionRecord[]
+        },
+        records,
+        updateStatusBar: vi.fn(),
+        saveSettings: vi.fn(async () => {}),
+        addSessionRecord: vi.fn(async (record: SessionRecord) => {
+            records.push(record);
+            plugin.settings.sessionHistory.push(record);
+        }),
+        getPlayingTrackTitle: () => null,
+        showBreakOverlay: vi.fn(),
+        alertPhaseEnd: vi.fn(),
+        enterZenMode: vi.fn(),
+        exitZenMode: vi.fn()
+    };
+    return plugin;
+}
+
+describe("ZenTimer", () => {
+    let time: FakeTime;
+    let plugin: ReturnType<typeof createPlugin>;
+    let timer: ZenTimer;
+
+    beforeEach(() => {
+        Notice.messages = [];
+        time = new FakeTime();
+        plugin = createPlugin();
+        timer = new ZenTimer(plugin as unknown as ZenZonePlugin, time, time);
+    });
+
+    it("moves to the break at the focus deadline and records the phase", () => {
+        timer.start();
+        time.advance(25 * MINUTE - 1000);
+        expect(timer.state).toBe(TimerState.Focus);
+        expect(timer.timeLeft).toBe(1);
+
+        time.advance(1000);
+        expect(timer.state).toBe(TimerState.ShortBreak);
+        expect(timer.timeLeft).toBe(5 * 60);
+        expect(plugin.records).toHaveLength(1);
+        expect(plugin.records[0]).toMatchObject({ state: TimerState.Focus, outcome: 'completed', actualSeconds: 25 * 60 });
+        expect(plugin.alertPhaseEnd).toHaveBeenCalledWith(TimerState.Focus, TimerState.ShortBreak);
+    });
+
+    describe("catch-up", () => {
+        it("completes phases that ended while asleep, each at its own deadline", () => {
+            timer.start();
+            time.sleep(40 * MINUTE);
+            timer.resync();
+
+            expect(timer.state).toBe(TimerState.Focus);
+            expect(timer.cycleCount).toBe(1);
+            expect(timer.timeLeft).toBe(15 * 60);
+            expect(plugin.records.map(r => [r.state, r.endedAt - r.startedAt])).toEqual([
+                [TimerState.Focus, 25 * MINUTE],
+                [TimerState.ShortBreak, 5 * MINUTE]
+            ]);
+            // 過ぎてしまったフェーズは通知しない
+            expect(plugin.alertPhaseEnd).not.toHaveBeenCalled();
+        });
+
+        it("restores a persisted session and finishes it quietly when it already ended", () => {
+            timer.start();
+            const snapshot = timer.toSnapshot();
+            time.sleep(3 * 60 * MINUTE);
+
+            const restored = new ZenTimer(plugin as unknown as ZenZonePlugin, time, time);
+            restored.restore(snapshot);
+
+            expect(restored.state).toBe(TimerState.Idle);
+            expect(plugin.records).toHaveLength(4);
+            expect(plugin.showBreakOverlay).not.toHaveBeenCalled();
+            expect(Notice.messages).not.toContain("🎉 All Cycles Complete!");
+        });
+
+        it("announces the end of a session that finishes live", () => {
+            timer.start();
+            time.advance(85 * MINUTE);
+
+            expect(timer.state).toBe(TimerState.Idle);
+            expect(plugin.showBreakOverlay).toHaveBeenCalledOnce();
+            expect(Notice.messages).toContain("🎉 All Cycles Complete!");
+        });
+    });
+
+    describe("pause and resume", () => {
+        it("freezes the remaining time while paused and excludes it from the record", () => {
+            timer.start();
+            time.advance(10 * MINUTE);
+            timer.pause();
+            time.advance(30 * MINUTE);
+
+            expect(timer.state).toBe(TimerState.Focus);
+            expect(timer.isPaused).toBe(true);
+            expect(timer.timeLeft).toBe(15 * 60);
+
+            timer.resume();
+            time.advance(15 * MINUTE);
+            expect(timer.state).toBe(TimerState.ShortBreak);
+            expect(plugin.records[0]).toMatchObject({ outcome: 'completed', actualSeconds: 25 * 60, pausedSeconds: 30 * 60 });
+        });
+
+        it("continues a paused phase on start", () => {
+            timer.start();
+            time.advance(5 * MINUTE);
+            timer.pause();
+            expect(timer.start()).toBe(false);
+            expect(timer.isRunning).toBe(true);
+            expect(timer.timeLeft).toBe(20 * 60);
+        });
+    });
+
+    describe("skip and extend", () => {
+        it("skips to the next phase and records the skipped one", () => {
+            timer.start();
+            time.advance(3 * MINUTE);
+            timer.skip();
+
+            expect(timer.state).toBe(TimerState.ShortBreak);
+            expect(timer.timeLeft).toBe(5 * 60);
+            expect(plugin.records[0]).toMatchObject({ state: TimerState.Focus, outcome: 'skipped', actualSeconds: 3 * 60 });
+        });
+
+        it("ends the session when skipping the last phase", () => {
+            timer.start();
+            timer.skip();
+            timer.skip();
+            timer.skip();
+            timer.skip();
+
+            expect(timer.state).toBe(TimerState.Idle);
+            expect(plugin.records.map(r => r.outcome)).toEqual(['skipped', 'skipped', 'skipped', 'skipped']);
+        });
+
+        it("pushes the deadline back when extending", () => {
+            timer.start();
+            timer.extend(5);
+            time.advance(25 * MINUTE);
+            expect(timer.state).toBe(TimerState.Focus);
+            expect(timer.timeLeft).toBe(5 * 60);
+
+            time.advance(5 * MINUTE);
+            expect(timer.state).toBe(TimerState.ShortBreak);
+            expect(plugin.records[0]).toMatchObject({ plannedSeconds: 30 * 60, actualSeconds: 30 * 60 });
+        });
+
+        it("extends a paused phase without starting it", () => {
+            timer.start();
+            timer.pause();
+            timer.extend(5);
+            time.advance(60 * MINUTE);
+
+            expect(timer.isPaused).toBe(true);
+            expect(timer.timeLeft).toBe(30 * 60);
+        });
+    });
+
+    describe("phase sequence", () => {
+        it("keeps the phases fixed at start when the settings change mid-session", () => {
+            timer.start();
+            plugin.settings.cyclesBeforeLongBreak = 1;
+            plugin.settings.shortBreakDuration = 15;
+
+            time.advance(25 * MINUTE);
+            expect(timer.state).toBe(TimerState.ShortBreak);
+            expect(timer.timeLeft).toBe(5 * 60);
+            expect(timer.totalCycles).toBe(2);
+        });
+
+        it("persists the phases with the session and applies new settings from the next one", () => {
+            timer.start();
+            const snapshot = timer.toSnapshot();
+            plugin.settings.workDuration = 50;
+
+            const restored = new ZenTimer(plugin as unknown as ZenZonePlugin, time, time);
+            restored.restore(snapshot);
+            expect(restored.getPhaseDuration(0)).toBe(25 * 60);
+
+            restored.reset();
+            expect(restored.timeLeft).toBe(50 * 60);
+        });
+    });
+
+    describe("interruptions", () => {
+        it("attaches interruptions to the running focus phase", () => {
+            timer.start();
+            timer.logInterruption('internal', "email");
+            timer.logInterruption('external');
+            expect(timer.logInterruption('external')).toBe(true);
+
+            time.advance(25 * MINUTE);
+            expect(plugin.records[0].interruptions?.map(i => i.kind)).toEqual(['internal', 'external', 'external']);
+            expect(timer.logInterruption('internal')).toBe(false);
+        });
+
+        it("charges an absence to the focus phase it began in, even after that phase ended", () => {
+            timer.start();
+            const phaseStartedAt = timer.phaseStartedAt as number;
+            time.advance(20 * MINUTE);
+            const leftAt = time.now();
+            time.advance(8 * MINUTE);
+
+            expect(timer.state).toBe(TimerState.ShortBreak);
+            expect(timer.logInterruptionInPhase(phaseStartedAt, { kind: 'external', at: leftAt, auto: true })).toBe(true);
+            expect(plugin.records[0].interruptions).toEqual([{ kind: 'external', at: leftAt, auto: true }]);
+            expect(timer.phaseInterruptions).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
+
+export default defineConfig({
+	resolve: {
+		// obsidian ships type declarations only; tests run against a small stand-in
+		alias: { obsidian: fileURLToPath(new URL("./tests/__mocks__/obsidian.ts", import.meta.url)) },
+		// "../main" must resolve to the source, not the bundled main.js next to it
+		extensions: [".ts", ".mjs", ".js", ".json"]
+	},
+	test: {
+		include: ["tests/**/*.test.ts"]
+	}
+});